@@ -0,0 +1,163 @@
+import { CacheMissError, RequestError } from '../utils/wikidata';
+
+export type ConversionErrorCategory =
+    'unsupported-clause' |
+    'missing-schema-property' |
+    'entity-display-not-found' |
+    'typecheck-failed' |
+    'cache-miss' |
+    'request-failed' |
+    'internal-error';
+
+/**
+ * Base class of the errors thrown when converting SPARQL to ThingTalk
+ */
+export class ConversionError extends Error {
+    category : ConversionErrorCategory;
+
+    constructor(category : ConversionErrorCategory, message : string) {
+        super(message);
+        this.name = this.constructor.name;
+        this.category = category;
+    }
+}
+
+/**
+ * A SPARQL feature that the converter does not handle (yet)
+ */
+export class UnsupportedError extends ConversionError {
+    constructor(message : string) {
+        super('unsupported-clause', message);
+    }
+}
+
+/**
+ * A Wikidata property used in SPARQL that is not available in the manifest
+ */
+export class MissingSchemaPropertyError extends ConversionError {
+    property : string;
+
+    constructor(property : string) {
+        super('missing-schema-property', `Failed to find property ${property} in schema`);
+        this.property = property;
+    }
+}
+
+/**
+ * An entity whose display cannot be found in the utterance
+ */
+export class EntityDisplayNotFoundError extends ConversionError {
+    qid : string;
+
+    constructor(qid : string) {
+        super('entity-display-not-found', `Failed to find the display of entity ${qid} in the utterance`);
+        this.qid = qid;
+    }
+}
+
+/**
+ * The converted ThingTalk program does not typecheck
+ */
+export class TypecheckError extends ConversionError {
+    constructor(message : string) {
+        super('typecheck-failed', message);
+    }
+}
+
+/**
+ * @param error any error thrown during conversion
+ * @returns the category of the error, errors not thrown by the converter
+ * itself (e.g., failed assertions) are internal errors
+ */
+export function getErrorCategory(error : unknown) : ConversionErrorCategory {
+    if (error instanceof ConversionError)
+        return error.category;
+    if (error instanceof CacheMissError)
+        return 'cache-miss';
+    if (error instanceof RequestError)
+        return 'request-failed';
+    return 'internal-error';
+}
+
+interface Failure {
+    id : string;
+    category : ConversionErrorCategory;
+    reason : string;
+}
+
+/**
+ * Collects conversion failures, and summarizes them by category and by reason,
+ * so that the missing features that cost the most examples come first
+ */
+export class FailureReport {
+    private _total : number;
+    private _failures : Failure[];
+
+    constructor() {
+        this._total = 0;
+        this._failures = [];
+    }
+
+    addSuccess() {
+        this._total += 1;
+    }
+
+    addFailure(id : string, error : unknown) {
+        this._total += 1;
+        this._failures.push({ id, category: getErrorCategory(error), reason: this._reason(error) });
+    }
+
+    /**
+     * Strip the example-specific part of the error message (variables,
+     * JSON dumps of the SPARQL nodes, entities and properties), so that
+     * failures caused by the same missing feature share the same reason
+     */
+    private _reason(error : unknown) : string {
+        const message = error instanceof Error ? error.message : String(error);
+        return message
+            .replace(/\s+/g, ' ')
+            .replace(/[{[].*$/, '')
+            .replace(/\?\w+/g, '?x')
+            .replace(/\b[QP]\d+\b/g, '<id>')
+            .replace(/[\s:]+$/, '')
+            .trim();
+    }
+
+    summarize() {
+        const categories : Record<string, { count : number, reasons : Record<string, string[]> }> = {};
+        for (const failure of this._failures) {
+            categories[failure.category] = categories[failure.category] ?? { count: 0, reasons: {} };
+            const category = categories[failure.category];
+            category.count += 1;
+            category.reasons[failure.reason] = category.reasons[failure.reason] ?? [];
+            category.reasons[failure.reason].push(failure.id);
+        }
+        return {
+            total: this._total,
+            failed: this._failures.length,
+            categories: Object.entries(categories).sort((a, b) => b[1].count - a[1].count).map(([category, { count, reasons }]) => ({
+                category,
+                count,
+                reasons: Object.entries(reasons).sort((a, b) => b[1].length - a[1].length).map(([reason, ids]) => ({
+                    reason,
+                    count: ids.length,
+                    ids
+                }))
+            }))
+        };
+    }
+
+    /**
+     * @returns a human readable summary of the failures
+     */
+    toString() : string {
+        const summary = this.summarize();
+        const lines = [`${summary.failed} out of ${summary.total} examples failed`];
+        for (const { category, count, reasons } of summary.categories) {
+            lines.push(`${category}: ${count}`);
+            for (const { reason, count } of reasons)
+                lines.push(`    ${count}\t${reason}`);
+        }
+        return lines.join('\n');
+    }
+}
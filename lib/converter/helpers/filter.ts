@@ -1,14 +1,30 @@
-import assert from 'assert';
 import { Ast, Type } from 'thingtalk';
-import { Expression, FilterPattern, OperationExpression } from 'sparqljs';
+import { 
+    Expression, 
+    FilterPattern, 
+    OperationExpression, 
+    Pattern,
+    ValuesPattern,
+    BindPattern,
+    FunctionCallExpression,
+    VariableTerm,
+    Term
+} from 'sparqljs';
 import {
     isVariable,
-    isLiteral
+    isLiteral,
+    isNamedNode,
+    isWikidataEntityNode,
+    isGroupPattern,
+    isFunctionCallExpression
 } from '../../utils/sparqljs-typeguard';
+import { ENTITY_PREFIX, GEOF_DISTANCE, TP_DEVICE_NAME } from '../../utils/wikidata';
 import {
     ArrayCollection
 } from '../../utils/misc';
-import SPARQLToThingTalkConverter from '../sparql2thingtalk';
+import { isIdFilter } from '../../utils/thingtalk';
+import SPARQLToThingTalkConverter, { Projection } from '../sparql2thingtalk';
+import { UnsupportedError } from '../errors';
 import { isOperationExpression } from '../../utils/sparqljs-typeguard';
 
 // type 
@@ -17,7 +33,7 @@ import { isOperationExpression } from '../../utils/sparqljs-typeguard';
 // (3) predicate : a thingtalk filter with qualifier(s)
 interface FilterInfo {
     table : string,
-    property : string|Ast.PropertyPathSequence|Ast.FilterValue|Ast.ArrayFieldValue,
+    property : Projection['property'],
     type : 'basic'|'qualifier'|'predicate'
 }
 
@@ -30,15 +46,27 @@ export default class FilterParser {
 
     private async _parseFilter(expression : Expression, negate = false) : Promise<ArrayCollection<Ast.BooleanExpression>> {
         if (!isOperationExpression(expression))
-            throw new Error(`Unsupported: non-operation type filter: ${expression}`);
+            throw new UnsupportedError(`Unsupported: non-operation type filter: ${expression}`);
         if (expression.operator === '!')
             return this._parseFilter(expression.args[0] as OperationExpression, !negate);
+        else if (expression.operator === '&&' || expression.operator === '||')
+            return this._parseConnective(expression, negate);
+        else if (expression.operator === 'exists' || expression.operator === 'notexists')
+            return this._parseExistence(expression, expression.operator === 'notexists' ? !negate : negate);
+        // language of labels, labels are always retrieved in the language of the utterance 
+        else if (expression.operator === 'langmatches' || this._isLanguageFilter(expression))
+            return new ArrayCollection<Ast.BooleanExpression>();
+        else if (['strstarts', 'strends', 'contains'].includes(expression.operator))
+            return this._parseStringFunction(expression, negate);
+        // regex with flags, matching in ThingTalk is always case-insensitive
+        else if (expression.operator === 'regex' && expression.args.length === 3)
+            return this._parseBinaryOperation({ ...expression, args: expression.args.slice(0, 2) }, negate);
         else if (expression.args.length === 1)
             return this._parseUnaryOperation(expression, negate);
         else if (expression.args.length === 2)
             return this._parseBinaryOperation(expression, negate);
 
-        throw new Error(`Unsupported: filters with more than two arguments`);
+        throw new UnsupportedError(`Unsupported: filters with more than two arguments`);
     }
 
     private _findProperty(variable : string) : FilterInfo|null {
@@ -58,6 +86,219 @@ export default class FilterParser {
         return null;
     }
 
+    /**
+     * Parse a filter expression where the operation is && or ||, the negation is 
+     * pushed down to the operands following De Morgan's laws
+     * @param expression a filter expression
+     * @param negate if the filter should be negated
+     */
+    private async _parseConnective(expression : OperationExpression, negate : boolean) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        const isConjunction = (expression.operator === '&&') !== negate;
+        const predicateCount = this._converter.helper.predicates.length;
+        const comparisonCount = this._converter.comparison.length;
+        const results : Array<ArrayCollection<Ast.BooleanExpression>> = [];
+        for (const arg of expression.args)
+            results.push(await this._parseFilter(arg, negate));
+
+        // a conjunction is the same as separate filters
+        const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+        if (isConjunction) {
+            for (const result of results) {
+                for (const [subject, filters] of result.iterate()) 
+                    filtersBySubject.add(subject, ...filters);
+            }
+            return filtersBySubject;
+        }
+
+        // a disjunction requires all operands to be filters on the same subject
+        if (this._converter.helper.predicates.length !== predicateCount || this._converter.comparison.length !== comparisonCount)
+            throw new UnsupportedError('Unsupported: qualifiers or comparisons in a disjunction');
+        const operands : Ast.BooleanExpression[] = [];
+        let existedSubject : string|null = null;
+        for (const result of results) {
+            if (result.size !== 1)
+                throw new UnsupportedError('Unsupported: multiple subjects in a disjunction');
+            const subject = result.keys[0];
+            if (existedSubject && subject !== existedSubject)
+                throw new UnsupportedError('Unsupported: multiple subjects in a disjunction');
+            existedSubject = subject;
+            const filters = result.get(subject);
+            operands.push(filters.length === 1 ? filters[0] : new Ast.AndBooleanExpression(null, filters));
+        }
+        filtersBySubject.add(existedSubject!, new Ast.OrBooleanExpression(null, operands));
+        return filtersBySubject;
+    }
+
+    /**
+     * Remove functions that do not change the semantics in ThingTalk: 
+     * case conversion (string matching is case-insensitive) and STR()
+     * @param expression a SPARQL expression
+     */
+    private _unwrap(expression : Expression) : Expression {
+        if (isOperationExpression(expression) && ['lcase', 'ucase', 'str'].includes(expression.operator))
+            return this._unwrap(expression.args[0]);
+        return expression;
+    }
+
+    /**
+     * Check if a filter is a language filter, i.e., LANG(?label) = "en"
+     * @param expression a filter expression
+     */
+    private _isLanguageFilter(expression : OperationExpression) : boolean {
+        const lhs = expression.args[0];
+        return expression.operator === '=' && isOperationExpression(lhs) && lhs.operator === 'lang';
+    }
+
+    /**
+     * Parse a filter expression with a string function: STRSTARTS, STRENDS, or CONTAINS
+     * @param expression a filter expression
+     * @param negate if the filter should be negated
+     */
+    private async _parseStringFunction(expression : OperationExpression, negate : boolean) {
+        const [arg, pattern] = expression.args.map((arg) => this._unwrap(arg));
+        if (!isVariable(arg) || !isLiteral(pattern))
+            throw new UnsupportedError(`Unsupported string function ${JSON.stringify(expression)}`);
+        const match = this._findProperty(arg.value);
+        if (!match)
+            throw new UnsupportedError(`Cannot find projection ${arg.value}`);
+        if (match.type !== 'basic' || typeof match.property !== 'string')
+            throw new UnsupportedError(`Unsupported: string function on qualifiers or property paths`);
+
+        const isLabel = match.property.endsWith('Label');
+        const property = isLabel ? match.property.slice(0, -'Label'.length) : match.property;
+        const propertyType = this._converter.schema.getPropertyType(property);
+        let operator;
+        // labels of entities and arrays of strings only support substring matching
+        if (!isLabel && propertyType === Type.String && expression.operator !== 'contains')
+            operator = expression.operator === 'strstarts' ? 'starts_with' : 'ends_with';
+        else 
+            operator = propertyType instanceof Type.Array ? 'contains~' : '=~';
+        let booleanExpression : Ast.BooleanExpression = new Ast.AtomBooleanExpression(null, property, operator, new Ast.Value.String(pattern.value), null);
+        if (negate)
+            booleanExpression = new Ast.NotBooleanExpression(null, booleanExpression);
+        return new ArrayCollection<Ast.BooleanExpression>(match.table, booleanExpression);
+    }
+
+    /**
+     * Parse a filter comparing the year or the month of a date, e.g, YEAR(?date) = 1950
+     * @param func the YEAR or MONTH function
+     * @param operator the operator of the comparison
+     * @param value the value to compare with
+     * @param negate if the filter should be negated
+     */
+    private async _parseDateFunction(func : OperationExpression, operator : string, value : Expression, negate : boolean) {
+        const arg = func.args[0];
+        if (!isVariable(arg) || !isLiteral(value) || isNaN(parseInt(value.value)))
+            throw new UnsupportedError(`Unsupported date function ${JSON.stringify(func)}`);
+        const match = this._findProperty(arg.value);
+        if (!match)
+            throw new UnsupportedError(`Cannot find projection ${arg.value}`);
+        if (match.type !== 'basic' || typeof match.property !== 'string')
+            throw new UnsupportedError(`Unsupported: date function on qualifiers or property paths`);
+
+        // a date piece only constrains the fields it has, i.e., a month without a year matches 
+        // the month in any year for equality, but it can't be ordered against dates
+        if (func.operator === 'month' && operator !== '=' && operator !== '!=')
+            throw new UnsupportedError(`Unsupported: comparison ${operator} on the month of a date`);
+        const number = parseInt(value.value);
+        let piece;
+        if (func.operator === 'month')
+            piece = new Ast.DatePiece(null, number, null, null);
+        else if (operator === '<=') // up to the last day of the year, so that any date in the year is included
+            piece = new Ast.DatePiece(number, 12, 31, null);
+        else
+            piece = new Ast.DatePiece(number, null, null, null);
+        const date = new Ast.DateValue(piece);
+        const propertyType = this._converter.schema.getPropertyType(match.property);
+        if (operator === '!=') {
+            operator = '=';
+            negate = !negate;
+        }
+        if (operator === '=')
+            operator = propertyType instanceof Type.Array ? 'contains' : '==';
+        let booleanExpression : Ast.BooleanExpression = new Ast.AtomBooleanExpression(null, match.property, operator, date, null);
+        if (negate)
+            booleanExpression = new Ast.NotBooleanExpression(null, booleanExpression);
+        return new ArrayCollection<Ast.BooleanExpression>(match.table, booleanExpression);
+    }
+
+    /**
+     * Find the location to compute the distance from: either a WKT literal, or the 
+     * location of a constant entity, which is looked up in the knowledge base and
+     * named after the entity as mentioned in the utterance
+     * @param expression the argument of the distance function
+     */
+    private async _findLocation(expression : Expression) : Promise<Ast.Value> {
+        if (isLiteral(expression))
+            return this._converter.helper.convertValue(expression.value, Type.Location);
+        if (isVariable(expression)) {
+            const match = this._findProperty(expression.value);
+            if (match && match.table.startsWith(ENTITY_PREFIX) && typeof match.property === 'string') {
+                const qid = match.table.slice(ENTITY_PREFIX.length);
+                const pid = this._converter.schema.getPropertyId(match.property);
+                const values = await this._converter.kb.getCoordinates(qid, pid);
+                if (values.length > 0) {
+                    // the location is now a constant, the projection on the entity is no longer needed
+                    this._converter.removeProjection(match.table, expression.value);
+                    const location = await this._converter.helper.convertValue(values[0], Type.Location) as Ast.LocationValue;
+                    // the location is mentioned by the name of the entity in the utterance
+                    const span = await this._converter.aligner.align(qid, this._converter.tokens);
+                    if (span)
+                        (location.value as Ast.AbsoluteLocation).display = span.display;
+                    return location;
+                }
+            }
+        }
+        throw new UnsupportedError(`Unsupported location in distance function ${JSON.stringify(expression)}`);
+    }
+
+    /**
+     * Parse a filter comparing the distance between two locations, e.g., 
+     * geof:distance(?location, ?center) < 100, the distance is in kilometers
+     * @param func the distance function
+     * @param operator the operator of the comparison
+     * @param value the value to compare with
+     * @param negate if the filter should be negated
+     */
+    private async _parseDistanceFunction(func : FunctionCallExpression, operator : string, value : Expression, negate : boolean) {
+        if (!isLiteral(value) || isNaN(parseFloat(value.value)))
+            throw new UnsupportedError(`Unsupported distance comparison ${JSON.stringify(value)}`);
+        // find the argument that is a location property of a table
+        const args = func.args;
+        const index = args.findIndex((arg) => {
+            if (!isVariable(arg))
+                return false;
+            const match = this._findProperty(arg.value);
+            return !!match && match.type === 'basic' && !match.table.startsWith(ENTITY_PREFIX);
+        });
+        if (index < 0)
+            throw new UnsupportedError(`Unsupported distance function ${JSON.stringify(func)}`);
+        const match = this._findProperty((args[index] as VariableTerm).value)!;
+        if (typeof match.property !== 'string')
+            throw new UnsupportedError(`Unsupported: distance on property path`);
+        const location = await this._findLocation(args[1 - index]);
+        let booleanExpression : Ast.BooleanExpression = new Ast.ComputeBooleanExpression(
+            null,
+            new Ast.Value.Computation('distance', [new Ast.Value.VarRef(match.property), location]),
+            operator,
+            new Ast.Value.Measure(parseFloat(value.value), 'km')
+        );
+        if (negate)
+            booleanExpression = new Ast.NotBooleanExpression(null, booleanExpression);
+        return new ArrayCollection<Ast.BooleanExpression>(match.table, booleanExpression);
+    }
+
+    /**
+     * Parse a filter expression where the operation is EXISTS or NOT EXISTS
+     * @param expression a filter expression
+     * @param negate if the filter should be negated
+     */
+    private async _parseExistence(expression : OperationExpression, negate : boolean) {
+        const group = expression.args[0];
+        const patterns = isGroupPattern(group) ? group.patterns : [group];
+        return this._converter.helper.parseExistence(patterns as Pattern[], negate);
+    }
+
     /**
      * Parse a filter expression where the operation is a unary operation
      * @param expression a filter expression
@@ -66,34 +307,19 @@ export default class FilterParser {
     private async _parseUnaryOperation(expression : OperationExpression, negate : boolean) {
         const arg = expression.args[0];
         if (expression.operator === 'bound') {
-            assert(isVariable(arg));
+            if (!isVariable(arg))
+                throw new UnsupportedError(`Unsupported bound on ${JSON.stringify(arg)}`);
             const match = this._findProperty(arg.value);
             if (!match)
-                throw new Error(`Cannot find projection ${arg.value}`);
-            assert(match.type === 'basic');
-            let booleanExpression;
-            if (typeof match.property === 'string') {
-                const propertyType = this._converter.schema.getPropertyType(match.property);
-                if (propertyType instanceof Type.Array) {
-                    booleanExpression = new Ast.ComputeBooleanExpression(
-                        null,
-                        new Ast.Value.Computation('count', [new Ast.Value.VarRef(match.property)]),
-                        '==',
-                        new Ast.Value.Number(0)
-                    );
-                } else {
-                    booleanExpression = new Ast.AtomBooleanExpression(null, match.property, '==', new Ast.Value.Null, null);
-                }
-            } else if (match.property instanceof Ast.FilterValue || match.property instanceof Ast.ArrayFieldValue) {
-                booleanExpression = new Ast.ComputeBooleanExpression(null, match.property, '==', new Ast.Value.Null, null);
-            } else {
-                booleanExpression = new Ast.PropertyPathBooleanExpression(null, match.property, '==', new Ast.Value.Null, null);
-            }
+                throw new UnsupportedError(`Cannot find projection ${arg.value}`);
+            if (match.type !== 'basic')
+                throw new UnsupportedError(`Unsupported: bound on qualifiers`);
+            let booleanExpression = this._converter.helper.makeIsNullExpression(match.property);
             if (negate)
                 booleanExpression = new Ast.NotBooleanExpression(null, booleanExpression);
             return new ArrayCollection<Ast.BooleanExpression>(match.table, booleanExpression);
         }
-        throw new Error(`Unsupported operator ${expression.operator}`);
+        throw new UnsupportedError(`Unsupported operator ${expression.operator}`);
     }
 
 
@@ -103,13 +329,38 @@ export default class FilterParser {
      * @param negate if the filter should be negated 
      */
     private async _parseBinaryOperation(expression : OperationExpression, negate : boolean) {
-        const [lhs, rhs] = expression.args;
-        assert(isVariable(lhs));
+        const lhs = this._unwrap(expression.args[0]);
+        const rhs = this._unwrap(expression.args[1]);
 
         let operator = expression.operator;
         if (operator === '>' || operator === '<')
             operator += '=';
-        if (isVariable(rhs)) {
+        if (isOperationExpression(lhs) && ['year', 'month'].includes(lhs.operator))
+            return this._parseDateFunction(lhs, operator, rhs, negate);
+        if (isFunctionCallExpression(lhs, GEOF_DISTANCE))
+            return this._parseDistanceFunction(lhs, operator, rhs, negate);
+        if (!isVariable(lhs))
+            throw new UnsupportedError(`Unsupported filter: ${JSON.stringify(expression)}`);
+        if (isOperationExpression(rhs) && rhs.operator === 'now') {
+            const match = this._findProperty(lhs.value);
+            if (!match)
+                throw new UnsupportedError(`Cannot find projection ${lhs.value}`);
+            if (match.type !== 'basic' || typeof match.property !== 'string')
+                throw new UnsupportedError(`Unsupported: comparison with current time on qualifiers or property paths`);
+            let booleanExpression : Ast.BooleanExpression = new Ast.AtomBooleanExpression(null, match.property, operator, new Ast.Value.Date(null), null);
+            if (negate)
+                booleanExpression = new Ast.NotBooleanExpression(null, booleanExpression);
+            return new ArrayCollection<Ast.BooleanExpression>(match.table, booleanExpression);
+        } else if (isNamedNode(rhs) && (operator === '=' || operator === '!=')) {
+            const filtersBySubject = await this._parseBinding(lhs.value, rhs);
+            const isPositive = (operator === '=') !== negate;
+            if (isPositive)
+                return filtersBySubject;
+            const negatedFiltersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+            for (const [subject, filters] of filtersBySubject.iterate()) 
+                negatedFiltersBySubject.add(subject, ...filters.map((filter) => new Ast.NotBooleanExpression(null, filter)));
+            return negatedFiltersBySubject;
+        } else if (isVariable(rhs)) {
             this._converter.addCrossTableComparison({
                 lhs: lhs.value,
                 operator: operator,
@@ -120,9 +371,9 @@ export default class FilterParser {
             const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
             const match = this._findProperty(lhs.value);
             if (!match)
-                throw new Error(`Cannot find projection ${lhs.value}`);
+                throw new UnsupportedError(`Cannot find projection ${lhs.value}`);
             if (typeof match.property !== 'string')
-                throw new Error(`Join on property path not supported`);
+                throw new UnsupportedError(`Join on property path not supported`);
 
             // handle qualifier related filter:
             // do not return it directly, add it the predicates to deal with it later
@@ -155,7 +406,8 @@ export default class FilterParser {
             // handle regular filters 
             let booleanExpression;
             if (match.property.endsWith('Label')) {
-                assert(operator === 'regex');
+                if (operator !== 'regex')
+                    throw new UnsupportedError(`Unsupported operator ${operator} on label`);
                 const property = match.property.slice(0, -'Label'.length);
                 const propertyType = this._converter.schema.getPropertyType(property);
                 operator = (propertyType instanceof Type.Array) ? 'contains~' : '=~';
@@ -168,7 +420,124 @@ export default class FilterParser {
             filtersBySubject.add(match.table, booleanExpression);
             return filtersBySubject;
         } 
-        throw new Error(`Unsupported binary operation ${expression.operator} with value ${rhs}`);
+        throw new UnsupportedError(`Unsupported binary operation ${expression.operator} with value ${rhs}`);
+    }
+
+    /**
+     * Convert binding a variable to a constant value into a filter
+     * @param variable the name of the variable
+     * @param value an entity or a literal 
+     */
+    private async _parseBinding(variable : string, value : Term) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+        // the variable is a subject: create an id filter
+        if (variable in this._converter.tables || !this._findProperty(variable)) {
+            if (!isWikidataEntityNode(value))
+                throw new UnsupportedError(`Unsupported binding on subject ${variable}: ${JSON.stringify(value)}`);
+            const domain = await this._converter.kb.getDomain(value.value.slice(ENTITY_PREFIX.length));
+            const table = domain ? this._converter.schema.getTable(domain) : null;
+            if (!domain || !table)
+                throw new UnsupportedError(`Unsupported: binding ${variable} to an entity without a domain in the schema: ${value.value}`);
+            // same as a constant subject, the domain of the entity becomes the domain of the table
+            if (!(variable in this._converter.tables) || this._converter.tables[variable].name === 'entity')
+                this._converter.updateTable(variable, domain);
+            filtersBySubject.add(variable, new Ast.AtomBooleanExpression(
+                null,
+                'id',
+                '==',
+                await this._converter.helper.convertValue(value.value, new Type.Entity(`${TP_DEVICE_NAME}:${table}`)),
+                null
+            ));
+            return filtersBySubject;
+        }
+
+        // the variable is a projection: create a filter on the property
+        const match = this._findProperty(variable)!;
+        if (match.type !== 'basic' || typeof match.property !== 'string')
+            throw new UnsupportedError(`Unsupported binding on ${variable}`);
+        if (!isNamedNode(value) && !isLiteral(value))
+            throw new UnsupportedError(`Unsupported binding value ${JSON.stringify(value)}`);
+        filtersBySubject.add(match.table, await this._converter.helper.makeAtomBooleanExpression(match.property, value.value));
+        return filtersBySubject;
+    }
+
+    /**
+     * Convert a SPARQL expression into a ThingTalk computation over properties
+     * @param expression a SPARQL expression
+     * @returns the subject of the table the computation is on (null for constants), and the computation
+     */
+    private _parseComputation(expression : Expression) : [string|null, Ast.Value] {
+        if (isVariable(expression)) {
+            const match = this._findProperty(expression.value);
+            if (!match || match.type !== 'basic')
+                throw new UnsupportedError(`Cannot find projection ${expression.value}`);
+            if (typeof match.property !== 'string')
+                throw new UnsupportedError(`Computation on property path not supported`);
+            return [match.table, new Ast.Value.VarRef(match.property)];
+        }
+        if (isLiteral(expression) && !isNaN(Number(expression.value)))
+            return [null, new Ast.Value.Number(Number(expression.value))];
+        if (isOperationExpression(expression) && ['+', '-', '*', '/'].includes(expression.operator) && expression.args.length === 2) {
+            const operands = expression.args.map((arg) => this._parseComputation(arg));
+            const tables = [...new Set(operands.map(([table, ]) => table).filter((table) => table !== null))];
+            if (tables.length > 1)
+                throw new UnsupportedError('Unsupported: computation across multiple subjects');
+            return [tables[0] ?? null, new Ast.Value.Computation(expression.operator, operands.map(([, value]) => value))];
+        }
+        throw new UnsupportedError(`Unsupported computation ${JSON.stringify(expression)}`);
+    }
+
+    /**
+     * Parse a VALUES clause: each row becomes a conjunction of filters, and 
+     * rows are combined with OR
+     * @param pattern a values pattern
+     */
+    async parseValues(pattern : ValuesPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        const operandsBySubject = new ArrayCollection<Ast.BooleanExpression>();
+        // the type of the entities bound to each subject, all rows need to agree on it 
+        const types : Record<string, string> = {};
+        for (const row of pattern.values) {
+            const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+            for (const [key, value] of Object.entries(row)) {
+                // skip UNDEF
+                if (!value)
+                    continue;
+                filtersBySubject.merge(await this._parseBinding(key.replace(/^\?/, ''), value));
+            }
+            for (const [subject, filters] of filtersBySubject.iterate()) {
+                for (const filter of filters.filter(isIdFilter)) {
+                    const type = ((filter as Ast.AtomBooleanExpression).value as Ast.EntityValue).type;
+                    if (subject in types && types[subject] !== type)
+                        throw new UnsupportedError(`Unsupported: values with entities of different domains on ${subject}`);
+                    types[subject] = type;
+                }
+                operandsBySubject.add(subject, filters.length === 1 ? filters[0] : new Ast.AndBooleanExpression(null, filters));
+            }
+        }
+        if (operandsBySubject.size > 1)
+            throw new UnsupportedError('Unsupported: values on multiple subjects');
+
+        const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+        for (const [subject, operands] of operandsBySubject.iterate()) 
+            filtersBySubject.add(subject, operands.length === 1 ? operands[0] : new Ast.OrBooleanExpression(null, operands));
+        return filtersBySubject;
+    }
+
+    /**
+     * Parse a BIND clause: binding a constant is handled the same way as VALUES, 
+     * binding an expression creates a computed projection 
+     * @param pattern a bind pattern
+     */
+    async parseBind(pattern : BindPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        const variable = pattern.variable.value;
+        const expression = pattern.expression;
+        if (isNamedNode(expression) || isLiteral(expression)) 
+            return this._parseBinding(variable, expression);
+        const [table, computation] = this._parseComputation(expression);
+        if (!table)
+            throw new UnsupportedError(`Unsupported: bind with constant expression ${JSON.stringify(expression)}`);
+        this._converter.updateTable(table, { property: computation as Ast.ComputationValue, variable });
+        return new ArrayCollection<Ast.BooleanExpression>();
     }
 
     async parse(filter : FilterPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
@@ -1,4 +1,3 @@
-import assert from 'assert';
 import { Ast } from 'thingtalk';
 import { 
     Expression,
@@ -12,6 +11,9 @@ import {
     isAggregateExpression
 } from '../../utils/sparqljs-typeguard';
 import SPARQLToThingTalkConverter from '../sparql2thingtalk';
+import { UnsupportedError } from '../errors';
+
+const AGGREGATIONS = ['count', 'sum', 'avg', 'min', 'max'];
 
 export default class GroupParser {
     private _converter : SPARQLToThingTalkConverter;
@@ -31,25 +33,105 @@ export default class GroupParser {
         );
     }
 
-    async parse(having : Expression, group : Grouping)  {
-        assert(isVariable(group.expression));
-        const subject = group.expression.value;
-        if (!(subject in this._converter.tables)) 
-            throw new Error('Unsupported group by operation on object');
-        if (isOperationExpression(having)) {
-            assert(having.args.length === 2);
-            const [lhs, rhs] = having.args;
-            assert(isAggregateExpression(lhs, 'count') && isVariable(lhs.expression) && !lhs.distinct);
-            const variable = lhs.expression.value;
-            const projection = this._converter.tables[subject].projections.find((proj) => proj.variable === variable);
+    private _groupFilter(field : string, operator : string, value : number) {
+        if (operator === '>' || operator === '<')
+            operator = operator + '=';
+        return new Ast.AtomBooleanExpression(null, field, operator, new Ast.Value.Number(value), null);
+    }
+
+    /**
+     * Find the grouping key: labels of other keys are dropped, since they
+     * do not change the groups. When a subject is one of the keys, the other keys 
+     * bound to properties of the subject are dropped too, the aggregation is then 
+     * computed for each entity. ThingTalk only groups a table by one property, so 
+     * multiple independent keys are not supported.
+     * @param groups the group by clause
+     * @returns the variable of the key
+     */
+    private _findKey(groups : Grouping[]) : string {
+        const tables = this._converter.tables;
+        let keys = groups.map((group) => {
+            if (!isVariable(group.expression))
+                throw new UnsupportedError(`Unsupported: group by on expression ${JSON.stringify(group.expression)}`);
+            return group.expression.value;
+        }).filter((key) => {
+            return !Object.values(tables).some((table) => table.projections.some((proj) =>
+                proj.variable === key && typeof proj.property === 'string' && proj.property.endsWith('Label')
+            ));
+        });
+        const subjects = keys.filter((key) => key in tables);
+        if (subjects.length === 1) {
+            const subject = subjects[0];
+            keys = keys.filter((key) => key === subject || !tables[subject].projections.some((proj) => proj.variable === key));
+        }
+        if (keys.length !== 1)
+            throw new UnsupportedError('Unsupported: group by with multiple fields');
+        return keys[0];
+    }
+
+    /**
+     * Parse one comparison in the having clause
+     * @param key the variable of the grouping key
+     * @param having a comparison between an aggregation and a number
+     */
+    private _parseComparison(key : string, having : Expression) {
+        if (!isOperationExpression(having) || having.args.length !== 2)
+            throw new UnsupportedError(`Unsupported having clause ${JSON.stringify(having)}`);
+        const [lhs, rhs] = having.args;
+        if (!isAggregateExpression(lhs) || !AGGREGATIONS.includes(lhs.aggregation) || !isVariable(lhs.expression))
+            throw new UnsupportedError(`Unsupported aggregation in having clause ${JSON.stringify(lhs)}`);
+        if (!isLiteral(rhs) || isNaN(Number(rhs.value)))
+            throw new UnsupportedError(`Unsupported value in having clause ${JSON.stringify(rhs)}`);
+        const aggregation = lhs.aggregation;
+        const variable = lhs.expression.value;
+        const value = parseFloat(rhs.value);
+        const tables = this._converter.tables;
+
+        // the key is a subject, aggregate on the values of one of its properties
+        if (key in tables) {
+            const projection = tables[key].projections.find((proj) => proj.variable === variable);
+            if (projection) {
+                if (typeof projection.property !== 'string')
+                    throw new UnsupportedError(`Having clause not supported for property path`);
+                this._converter.updateTable(key, this._aggregateFilter(aggregation, [projection.property], having.operator, value));
+                return;
+            }
+        }
+
+        // the key is a property of another subject, group the table of that subject by the property
+        for (const [subject, table] of Object.entries(tables)) {
+            const projection = table.projections.find((proj) => proj.variable === key);
             if (!projection)
-                throw new Error(`Can't find matching variable for the having clause`);
+                continue;
             if (typeof projection.property !== 'string')
-                throw new Error(`Having clause not supported for property path`);
-            assert(isLiteral(rhs) && Number(rhs.value));
-            this._converter.updateTable(subject, this._aggregateFilter('count', [projection.property], having.operator, parseFloat(rhs.value)));
-        } else {
-            throw new Error(`Unsupported having clause ${JSON.stringify(having)}`);
+                throw new UnsupportedError(`Group by not supported for property path`);
+            let field;
+            if (variable === subject) {
+                if (aggregation !== 'count')
+                    throw new UnsupportedError(`Unsupported: ${aggregation} on a subject`);
+                field = '*';
+            } else {
+                const aggregated = table.projections.find((proj) => proj.variable === variable);
+                if (!aggregated)
+                    throw new UnsupportedError(`Can't find matching variable for the having clause`);
+                if (typeof aggregated.property !== 'string')
+                    throw new UnsupportedError(`Having clause not supported for property path`);
+                field = aggregated.property;
+            }
+            const filter = this._groupFilter(aggregation === 'count' ? 'count' : field, having.operator, value);
+            this._converter.updateGroupBy({ subject, property: projection.property, op: aggregation, field, filters: [filter] });
+            return;
+        }
+        throw new UnsupportedError(`Can't find matching variable for the group by clause`);
+    }
+
+    async parse(having : Expression, groups : Grouping[])  {
+        const key = this._findKey(groups);
+        if (isOperationExpression(having) && having.operator === '&&') {
+            for (const arg of having.args)
+                await this.parse(arg, groups);
+            return;
         }
+        this._parseComparison(key, having);
     }
 }
\ No newline at end of file
@@ -1,4 +1,3 @@
-import assert from 'assert';
 import { Ast, Type } from 'thingtalk';
 import { 
     BgpPattern,
@@ -6,6 +5,10 @@ import {
     Grouping,
     FilterPattern,
     UnionPattern,
+    OptionalPattern,
+    ValuesPattern,
+    BindPattern,
+    Pattern,
     Variable,
     Wildcard,
     Ordering,
@@ -19,7 +22,11 @@ import {
     isBasicGraphPattern,
     isAggregateExpression,
     isAskQuery,
-    isSelectQuery
+    isSelectQuery,
+    isFilterPattern,
+    isUnionPattern,
+    isOptionalPattern,
+    isGroupPattern
 } from '../../utils/sparqljs-typeguard';
 import {
     ENTITY_PREFIX,
@@ -46,14 +53,25 @@ import {
     Table,
     Aggregation,
     Projection,
-    Predicate
+    Predicate,
+    GroupBy,
+    Comparison
 } from '../sparql2thingtalk';
 import SPARQLToThingTalkConverter from '../sparql2thingtalk';
+import { UnsupportedError, MissingSchemaPropertyError } from '../errors';
 
 function isAggregation(v : any) : v is Aggregation {
     return typeof v === 'object' && 'op' in v && 'variable' in v;
 }
 
+function flipOperator(operator : string) : string {
+    if (operator === '>=')
+        return '<=';
+    if (operator === '<=')
+        return '>=';
+    return operator;
+}
+
 export default class ConverterHelper {
     private _converter : SPARQLToThingTalkConverter;
     private _triple : TripleParser;
@@ -61,6 +79,10 @@ export default class ConverterHelper {
     private _group : GroupParser;
     private _predicate : PredicateParser;
     private _value : ValueConverter;
+    // variables bound only inside some branches of a union, they cannot be selected
+    private _unionVariables : Set<string>;
+    // comparisons converted into subqueries
+    private _usedComparisons : Set<Comparison>;
 
     constructor(converter : SPARQLToThingTalkConverter) {
         this._converter = converter;
@@ -69,6 +91,8 @@ export default class ConverterHelper {
         this._predicate = new PredicateParser(converter);
         this._value = new ValueConverter(converter);
         this._group = new GroupParser(converter);
+        this._unionVariables = new Set();
+        this._usedComparisons = new Set();
     }
 
     get predicates() {
@@ -77,6 +101,8 @@ export default class ConverterHelper {
 
     init() {
         this._predicate.reset();
+        this._unionVariables.clear();
+        this._usedComparisons.clear();
     }
 
     async convertValue(value : any, type : Type) {
@@ -87,7 +113,7 @@ export default class ConverterHelper {
         return this._predicate.convert();
     }
 
-    async parseGroup(having : Expression, group : Grouping) {
+    async parseGroup(having : Expression, group : Grouping[]) {
         return this._group.parse(having, group);
     }
 
@@ -103,37 +129,300 @@ export default class ConverterHelper {
         return this._filter.parse(clause);
     }
 
+    async parseValues(clause : ValuesPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        return this._filter.parseValues(clause);
+    }
+
+    async parseBind(clause : BindPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        return this._filter.parseBind(clause);
+    }
+
+    /**
+     * Parse a UNION block: each branch is parsed in isolation, and converted into 
+     * a boolean expression on one anchor subject shared by all branches; other 
+     * subjects constrained in a branch become subqueries. The branches are then 
+     * combined with OR. Projections bound the same way in all branches are kept, 
+     * other variables bound in the branches cannot be selected
+     * @param clause a union pattern
+     */
     async parseUnion(clause : UnionPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
         const triple = parseSpecialUnion(clause);
         if (triple) 
             return this.parseTriples({ type: 'bgp', triples: [triple] });
         
-        const results : Array<ArrayCollection<Ast.BooleanExpression>> = [];
+        // parse each branch, and keep the state of the tables after each branch
+        const snapshot = this._snapshot();
+        const branches : Array<Record<string, Table>> = [];
         for (const pattern of clause.patterns) {
-            assert(isBasicGraphPattern(pattern));
-            results.push(await this.parseTriples(pattern));
-        }
-        let existedSubject : string|null = null;
-        const operands : Ast.BooleanExpression[] = [];
-        for (const filtersBySubject of results) {
-            if (filtersBySubject.size > 1)
-                throw new Error('Unsupported: multiple subjects in a union');
-            const subject = filtersBySubject.keys[0];
-            const filters = filtersBySubject.get(subject);
-            assert(filters.length > 0);
-            const filter = filters.length === 1 ? filters[0] : new Ast.AndBooleanExpression(null, filters);
-            if (!existedSubject)
-                existedSubject = subject;
-            else if (subject !== existedSubject)
-                throw new Error('Unsupported: multiple subjects in a union');
-            operands.push(filter);
-        }
-        return new ArrayCollection(existedSubject!, new Ast.OrBooleanExpression(null, operands));
+            const filtersBySubject = await this._parseGroupPatterns(isGroupPattern(pattern) ? pattern.patterns : [pattern]);
+            for (const [subject, filters] of filtersBySubject.iterate()) {
+                for (const filter of filters)
+                    this._converter.updateTable(subject, filter);
+            }
+            branches.push(this._snapshot());
+            this._restore(snapshot);
+        }
+
+        // find the subjects changed in each branch
+        const changes = branches.map((branch) => Object.keys(branch).filter((subject) => {
+            const original = snapshot[subject];
+            const table = branch[subject];
+            return !original || 
+                table.name !== original.name || 
+                table.filters.length > original.filters.length || 
+                table.projections.length > original.projections.length;
+        }));
+
+        // the anchor needs to exist in all branches, choose the one changed by most branches
+        const candidates = Object.keys(branches[0]).filter((subject) => branches.every((branch) => subject in branch));
+        if (candidates.length === 0)
+            throw new UnsupportedError('Unsupported: union without a common subject');
+        const count = (subject : string) => changes.filter((changed) => changed.includes(subject)).length;
+        candidates.sort((a, b) => count(b) - count(a));
+        const anchor = candidates[0];
+
+        // projections introduced on the anchor or an existing subject with the same property in all branches 
+        const newProjections = (branch : Record<string, Table>, subject : string) => {
+            const original = snapshot[subject];
+            return branch[subject].projections.filter((proj) => !original || !original.projections.includes(proj));
+        };
+        const shared : Array<[string, Projection]> = [];
+        for (const subject of Object.keys(branches[0]).filter((subject) => subject === anchor || subject in snapshot)) {
+            for (const projection of newProjections(branches[0], subject)) {
+                if (!projection.variable || typeof projection.property !== 'string')
+                    continue;
+                if (branches.every((branch) => newProjections(branch, subject).some((proj) => 
+                    proj.variable === projection.variable && proj.property === projection.property)))
+                    shared.push([subject, projection]);
+            }
+        }
+        const sharedVariables = shared.map(([, projection]) => projection.variable!);
+        for (const branch of branches) {
+            for (const subject of Object.keys(branch)) {
+                if (!(subject in snapshot) && subject !== anchor)
+                    this._unionVariables.add(subject);
+                for (const projection of newProjections(branch, subject)) {
+                    if (projection.variable && !sharedVariables.includes(projection.variable))
+                        this._unionVariables.add(projection.variable);
+                }
+            }
+        }
+
+        const operands : Array<Ast.BooleanExpression|null> = [];
+        let domain : string|null = null;
+        for (let i = 0; i < branches.length; i++) {
+            this._restore(branches[i]);
+            const tables = this._converter.tables;
+            const others = changes[i].filter((subject) => subject !== anchor);
+            for (const subject of others.filter((subject) => !(subject in snapshot))) {
+                await this._resolveSubdomain(tables[subject]);
+                await this._resolveMissingProperties(tables[subject]);
+            }
+            const expectedDomain = anchor in snapshot ? snapshot[anchor].name : domain;
+            if (expectedDomain && tables[anchor].name !== expectedDomain)
+                throw new UnsupportedError('Unsupported: domain constraint in union');
+            domain = tables[anchor].name;
+            const linked = new Set<string>();
+            operands.push(this._makeGroupFilter(anchor, snapshot, others, linked, sharedVariables));
+            if (others.some((subject) => !linked.has(subject)))
+                throw new UnsupportedError('Unsupported: union with a subject not connected to the other subjects');
+        }
+        this._restore(snapshot);
+        if (!(anchor in snapshot))
+            this._converter.updateTable(anchor, domain!);
+        for (const [subject, projection] of shared) 
+            this._converter.updateTable(subject, { variable: projection.variable, property: projection.property });
+
+        // if some branch does not constrain the anchor, the union does not filter anything
+        if (operands.some((operand) => operand === null))
+            return new ArrayCollection<Ast.BooleanExpression>();
+        return new ArrayCollection(anchor, new Ast.OrBooleanExpression(null, operands as Ast.BooleanExpression[]));
+    }
+
+    /**
+     * Parse an OPTIONAL block: the triples in the block only add projections, 
+     * and the projected values may be null. Filters inside the block restrict the 
+     * optional values only, which ThingTalk cannot express, so they are not supported.
+     * @param clause an optional pattern
+     */
+    async parseOptional(clause : OptionalPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        const snapshot = this._snapshot();
+        const comparisonCount = this._converter.comparison.length;
+        const existing = new Set(Object.values(snapshot).flatMap((table) => table.projections));
+        const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+        for (const pattern of clause.patterns.filter((pattern) => !isFilterPattern(pattern))) {
+            if (isBasicGraphPattern(pattern))
+                filtersBySubject.merge(await this.parseTriples(pattern));
+            else if (isOptionalPattern(pattern))
+                await this.parseOptional(pattern);
+            else
+                throw new UnsupportedError(`Unsupported pattern in optional clause ${JSON.stringify(pattern)}`);
+        }
+        // language filters on labels are dropped by the filter parser, so they are allowed
+        for (const pattern of clause.patterns.filter(isFilterPattern))
+            filtersBySubject.merge(await this.parseFilter(pattern));
+
+        const tables = this._converter.tables;
+        const constrained = Object.entries(tables).some(([subject, table]) => {
+            const original = snapshot[subject];
+            return !original || table.name !== original.name || table.filters.length > original.filters.length;
+        });
+        if (filtersBySubject.size > 0 || constrained || this._converter.comparison.length !== comparisonCount)
+            throw new UnsupportedError('Unsupported: filters in optional clause');
+        for (const table of Object.values(tables)) {
+            for (const projection of table.projections) {
+                if (!existing.has(projection))
+                    projection.optional = true;
+            }
+        }
+        return new ArrayCollection<Ast.BooleanExpression>();
+    }
+
+    /**
+     * Parse a group of patterns inside FILTER (NOT) EXISTS or MINUS. 
+     * The patterns are parsed in isolation: the filters, projections and tables they 
+     * introduce are turned into one boolean expression for each existing subject, 
+     * and then removed from the tables. New tables become subqueries. 
+     * @param patterns the patterns inside the group
+     * @param negate whether the existence is negated
+     */
+    async parseExistence(patterns : Pattern[], negate : boolean) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        const snapshot = this._snapshot();
+        const filtersBySubject = await this._parseGroupPatterns(patterns);
+        for (const [subject, filters] of filtersBySubject.iterate()) {
+            for (const filter of filters)
+                this._converter.updateTable(subject, filter);
+        }
+
+        // tables introduced in the group 
+        const tables = this._converter.tables;
+        const newSubjects = Object.keys(tables).filter((subject) => !(subject in snapshot));
+        for (const subject of newSubjects) {
+            await this._resolveSubdomain(tables[subject]);
+            await this._resolveMissingProperties(tables[subject]);
+        }
+
+        const result = new ArrayCollection<Ast.BooleanExpression>();
+        const linked = new Set<string>();
+        for (const [subject, original] of Object.entries(snapshot)) {
+            if (tables[subject].name !== original.name)
+                throw new UnsupportedError('Unsupported: domain constraint in negation');
+            const filter = this._makeGroupFilter(subject, snapshot, newSubjects, linked);
+            if (filter)
+                result.add(subject, negate ? new Ast.NotBooleanExpression(null, filter) : filter);
+        }
+        if (newSubjects.some((subject) => !linked.has(subject)))
+            throw new UnsupportedError('Unsupported: negation with a subject not connected to the main query');
+
+        this._restore(snapshot);
+        return result;
+    }
+
+    /**
+     * Parse the patterns in a group, in the same order as the where clause
+     * @param patterns the patterns in the group
+     */
+    private async _parseGroupPatterns(patterns : Pattern[]) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        const predicateCount = this.predicates.length;
+        const comparisonCount = this._converter.comparison.length;
+        const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+        // parse non-filters first
+        for (const pattern of patterns.filter((pattern) => !isFilterPattern(pattern))) {
+            if (isBasicGraphPattern(pattern))
+                filtersBySubject.merge(await this.parseTriples(pattern));
+            else if (isUnionPattern(pattern))
+                filtersBySubject.merge(await this.parseUnion(pattern));
+            else if (isGroupPattern(pattern))
+                filtersBySubject.merge(await this._parseGroupPatterns(pattern.patterns));
+            else
+                throw new UnsupportedError(`Unsupported pattern in group ${JSON.stringify(pattern)}`);
+        }
+        for (const pattern of patterns.filter(isFilterPattern)) 
+            filtersBySubject.merge(await this.parseFilter(pattern));
+        if (this.predicates.length !== predicateCount || this._converter.comparison.length !== comparisonCount)
+            throw new UnsupportedError('Unsupported: qualifiers or comparisons in a group pattern');
+        return filtersBySubject;
+    }
+
+    /**
+     * Convert what a group of patterns introduced on top of the snapshot into one 
+     * boolean expression on a subject: the new filters, the not null checks for the 
+     * new projections, and subqueries for the other subjects connected to it
+     * @param subject the subject to generate the boolean expression for
+     * @param snapshot the tables before the group is parsed
+     * @param others the other subjects to connect with subqueries
+     * @param linked the set to add the connected subjects to
+     * @param projected the variables projected outside of the group, no not null check is needed for them
+     * @returns the boolean expression, or null if the group introduced nothing on the subject
+     */
+    private _makeGroupFilter(subject : string, 
+                             snapshot : Record<string, Table>, 
+                             others : string[], 
+                             linked : Set<string>,
+                             projected : string[] = []) : Ast.BooleanExpression|null {
+        const tables = this._converter.tables;
+        const table = tables[subject];
+        const original = snapshot[subject] as Table|undefined;
+        const operands = table.filters.filter((filter) => !original || !original.filters.includes(filter));
+        for (const projection of table.projections) {
+            if (original && original.projections.includes(projection))
+                continue;
+            if (projection.variable && (others.includes(projection.variable) || projected.includes(projection.variable)))
+                continue;
+            if (typeof projection.property === 'string' && projection.property.endsWith('Label'))
+                continue;
+            operands.push(new Ast.NotBooleanExpression(null, this.makeIsNullExpression(projection.property)));
+        }
+        for (const other of others) {
+            if (table.projections.some((proj) => proj.variable === other) ||
+                tables[other].projections.some((proj) => proj.variable === subject)) {
+                operands.push(this.makeSubquery(subject, other));
+                linked.add(other);
+            }
+        }
+        if (operands.length === 0)
+            return null;
+        return operands.length === 1 ? operands[0] : new Ast.AndBooleanExpression(null, operands);
+    }
+
+    /**
+     * Make a copy of the current tables
+     */
+    private _snapshot() : Record<string, Table> {
+        const snapshot : Record<string, Table> = {};
+        for (const [subject, table] of Object.entries(this._converter.tables)) 
+            snapshot[subject] = { ...table, projections: [...table.projections], filters: [...table.filters] };
+        return snapshot;
+    }
+
+    /**
+     * Restore the tables to a snapshot
+     * @param snapshot a copy of tables 
+     */
+    private _restore(snapshot : Record<string, Table>) {
+        const tables = this._converter.tables;
+        for (const subject of Object.keys(tables)) {
+            if (!(subject in snapshot))
+                this._converter.removeTable(subject);
+        }
+        for (const [subject, table] of Object.entries(snapshot)) 
+            tables[subject] = { ...table, projections: [...table.projections], filters: [...table.filters] };
+    }
+
+    /**
+     * @param variable a variable in SPARQL
+     * @returns whether the variable is a subject or a projection in the tables
+     */
+    private _isBound(variable : string) : boolean {
+        return Object.entries(this._converter.tables).some(([subject, table]) => 
+            subject === variable || table.projections.some((proj) => proj.variable === variable));
     }
 
     parseVariables(variables : Variable[]|[Wildcard]) : ArrayCollection<Projection|Aggregation> {
         const projectionsOrAggregationsBySubject = new ArrayCollection<Projection|Aggregation>();
         for (const variable of variables) {
+            if (isVariable(variable) && this._unionVariables.has(variable.value) && !this._isBound(variable.value))
+                throw new UnsupportedError(`Unsupported: selecting ${variable.value} bound differently in the branches of a union`);
             if (isVariable(variable)) {
                 for (const [subject, table] of Object.entries(this._converter.tables)) {
                     if (subject === variable.value) {
@@ -152,9 +441,11 @@ export default class ConverterHelper {
                     }
                 }
             } else if (isVariableExpression(variable) && isAggregateExpression(variable.expression)) {
-                assert(['count', 'sum', 'avg', 'min', 'max'].includes(variable.expression.aggregation));
+                if (!['count', 'sum', 'avg', 'min', 'max'].includes(variable.expression.aggregation))
+                    throw new UnsupportedError(`Unsupported aggregation ${variable.expression.aggregation}`);
                 const expression = variable.expression.expression;
-                assert(isVariable(expression));
+                if (!isVariable(expression))
+                    throw new UnsupportedError(`Unsupported aggregation on expression ${JSON.stringify(expression)}`);
                 for (const [subject, table] of Object.entries(this._converter.tables)) {
                     if (subject === expression.value) {
                         projectionsOrAggregationsBySubject.add(subject, { 
@@ -173,7 +464,7 @@ export default class ConverterHelper {
                 }
                 
             } else {
-                throw new Error('Unsupported type of variable: ' + variable);
+                throw new UnsupportedError('Unsupported type of variable: ' + variable);
             }
         }
         return projectionsOrAggregationsBySubject;
@@ -191,9 +482,18 @@ export default class ConverterHelper {
         
     }
 
-    addProjectionsAndAggregations(base : Ast.Expression, subject : string, projectionsAndAggregations : Array<Projection|Aggregation>) {
+    addProjectionsAndAggregations(base : Ast.Expression, 
+                                  subject : string, 
+                                  projectionsAndAggregations : Array<Projection|Aggregation>, 
+                                  grouped = false) {
         const projections = projectionsAndAggregations.filter((v) => !isAggregation(v)) as Projection[];
         const aggregations = projectionsAndAggregations.filter(isAggregation) as Aggregation[];
+        // when the table is grouped, the aggregations are already computed, project the aggregated fields
+        if (grouped) {
+            for (const aggregation of aggregations) 
+                projections.push({ property: aggregation.op === 'count' ? 'count' : aggregation.variable });
+            aggregations.length = 0;
+        }
         let expression = base;
         if (projections.length > 0 && !(projections.length === 1 && projections[0].property === 'id')) {
             expression = new Ast.ProjectionExpression2(
@@ -210,7 +510,8 @@ export default class ConverterHelper {
             );
         }
         if (aggregations.length > 0) {
-            assert(aggregations.length === 1);
+            if (aggregations.length > 1)
+                throw new UnsupportedError('Unsupported: multiple aggregations');
             const aggregation = aggregations[0];
             const field = aggregation.variable === subject ? '*' : aggregation.variable;
             expression = new Ast.AggregationExpression(null, expression, field, aggregation.op, null);
@@ -218,29 +519,55 @@ export default class ConverterHelper {
         return expression;
     }
 
+    addGroupBy(base : Ast.Expression, groupBy : GroupBy) : Ast.Expression {
+        const expression = new Ast.AggregationExpression(null, base, groupBy.field, groupBy.op, null, null, groupBy.property);
+        return this.addFilters(expression, groupBy.filters);
+    }
+
     addOrdering(base : Ast.Expression, table : Table, ordering ?: Ordering[]) : Ast.Expression {
         if (!ordering || ordering.length === 0)
             return base;
-        if (ordering.length > 1)
-            throw new Error('Unsupported: ordering on multiple varialbles');
         
-        const order = ordering[0];
-        const expression = order.expression;
-        assert(isVariable(expression));
-        const projection = table.projections.find((proj) => proj.variable === expression.value);
-        if (!projection)
-            throw new Error('Failed to find the variable for sorting');
-        if (typeof projection.property !== 'string')
-            throw new Error('Unsupported: sort on property path');
-        const property = new Ast.Value.VarRef(projection.property);
-        const direction = order.descending ? 'desc' : 'asc';
-        return new Ast.SortExpression(null, base, property, direction, null);
+        // sort by the keys from the last to the first, so that the first key is 
+        // the outermost sort, i.e., the primary sort key
+        let expression = base;
+        for (const order of [...ordering].reverse()) {
+            const variable = order.expression;
+            if (!isVariable(variable))
+                throw new UnsupportedError(`Unsupported: ordering on expression ${JSON.stringify(variable)}`);
+            const projection = table.projections.find((proj) => proj.variable === variable.value);
+            if (!projection)
+                throw new UnsupportedError('Failed to find the variable for sorting');
+            let property : Ast.Value;
+            if (typeof projection.property === 'string')
+                property = new Ast.Value.VarRef(projection.property);
+            else if (Array.isArray(projection.property))
+                property = new Ast.Value.PropertyPath(projection.property);
+            else 
+                property = projection.property;
+            const direction = order.descending ? 'desc' : 'asc';
+            expression = new Ast.SortExpression(null, expression, property, direction, null);
+        }
+        return expression;
     }
 
-    addLimit(base : Ast.Expression, limit ?: number) : Ast.Expression {
-        if (limit)
-            return  new Ast.IndexExpression(null, base, [new Ast.Value.Number(limit)], null);
-        return base;
+    /**
+     * Add limit and offset: a single result becomes an index, multiple results 
+     * become a slice 
+     * @param base the base expression
+     * @param limit the maximum number of results
+     * @param offset the number of results to skip
+     */
+    addLimit(base : Ast.Expression, limit ?: number, offset ?: number) : Ast.Expression {
+        offset = offset ?? 0;
+        if (!limit) {
+            if (offset > 0)
+                throw new UnsupportedError('Unsupported: offset without limit');
+            return base;
+        }
+        if (limit === 1)
+            return new Ast.IndexExpression(null, base, [new Ast.Value.Number(offset + 1)], null);
+        return new Ast.SliceExpression(null, base, new Ast.Value.Number(offset + 1), new Ast.Value.Number(limit), null);
     }
 
     addVerification(base : Ast.Expression, filters : Ast.BooleanExpression[], projections : Projection[]) : Ast.Expression {
@@ -255,7 +582,9 @@ export default class ConverterHelper {
         }
         // for projections, add filter that the property is not null
         for (const proj of projections) {
-            let isNull : Ast.BooleanExpression;
+            // optional projections are allowed to be null
+            if (proj.optional)
+                continue;
             if (typeof proj.property === 'string') {
                 if (proj.property.endsWith('Label'))
                     continue;
@@ -276,23 +605,8 @@ export default class ConverterHelper {
                 });
                 if (inFilter)
                     continue;
-                const propertyType = this._converter.schema.getPropertyType(proj.property);
-                if (propertyType instanceof Type.Array) {
-                    isNull = new Ast.ComputeBooleanExpression(
-                        null,
-                        new Ast.Value.Computation('count', [new Ast.Value.VarRef(proj.property)]),
-                        '==',
-                        new Ast.Value.Number(0)
-                    );
-                } else {   
-                    isNull = new Ast.AtomBooleanExpression(null, proj.property, '==', new Ast.Value.Null, null);
-                }
-            } else if (proj.property instanceof Ast.FilterValue || proj.property instanceof Ast.ArrayFieldValue) {
-                isNull = new Ast.ComputeBooleanExpression(null, proj.property, '==', new Ast.Value.Null, null);
-            } else {
-                isNull = new Ast.PropertyPathBooleanExpression(null, proj.property, '==', new Ast.Value.Null, null);
             }
-            operands.push(new Ast.NotBooleanExpression(null, isNull));
+            operands.push(new Ast.NotBooleanExpression(null, this.makeIsNullExpression(proj.property)));
         }
         
         if (idFilter) {
@@ -315,6 +629,13 @@ export default class ConverterHelper {
      * Preprocess tables to simplify the conversion 
      */
     async preprocessTables(projectionsAndAggregationsBySubject : ArrayCollection<Projection|Aggregation>) {
+        // tables of a constant entity with only the id filter carry no information,
+        // e.g., the entity is only used to look up a value (such as its location)
+        for (const [subject, table] of Object.entries(this._converter.tables)) {
+            if (subject.startsWith(ENTITY_PREFIX) && table.projections.length === 0 && table.filters.every(isIdFilter))
+                this._converter.removeTable(subject);
+        }
+
         // check tables with only domain information, it can potentially be resolved with a type annotation
         // on another table's projection
         // only apply to selection not verification
@@ -344,72 +665,97 @@ export default class ConverterHelper {
         }
 
         // if a table name is QID, it means its domain is not in the schema, we need to add a instance_of filter
-        for (const table of Object.values(this._converter.tables)) {
-            const subdomain = table.name;
-            if (!this._converter.kb.isEntity(table.name))
-                continue;
-            const domain = await this._converter.kb.getTopLevelDomain([subdomain]);
-            table.name = this._converter.schema.getTable(domain);
-            const value = await this._converter.helper.convertValue(
-                ENTITY_PREFIX + subdomain, 
-                new Type.Entity(`${TP_DEVICE_NAME}:${table.name}_subdomain`)
-            ) as Ast.EntityValue ;
-            table.filters.unshift(new Ast.AtomBooleanExpression(
-                null,
-                'instance_of',
-                '==',
-                value,
-                null
-            ));
-        }
+        for (const table of Object.values(this._converter.tables))
+            await this._resolveSubdomain(table);
 
         // if there is property not available in the domain, use 'entity' domain 
-        for (const table of Object.values(this._converter.tables)) {
-            const properties = [];
-            for (const filter of table.filters) 
-                properties.push(...getPropertiesInFilter(filter));
-            for (const proj of table.projections) {
-                const prop = proj.property;
-                if (typeof prop === 'string') {
-                    if (prop.endsWith('Label')) 
-                        continue;
-                    if (prop.includes('.'))
-                        continue;
-                    properties.push(prop);
-                } else if (prop instanceof Ast.FilterValue) {
-                    properties.push((prop.value as Ast.VarRefValue).name);
-                } else if (prop instanceof Ast.ArrayFieldValue) {
-                    const filterValue = prop.value as Ast.FilterValue;
-                    properties.push((filterValue.value as Ast.VarRefValue).name);
-                } else { 
-                    properties.push(prop[0].property);
+        for (const table of Object.values(this._converter.tables))
+            await this._resolveMissingProperties(table);
+    }
+
+    /**
+     * If the table name is a QID, its domain is not in the schema, switch to its
+     * top-level domain and add an instance_of filter
+     * @param table a table 
+     */
+    private async _resolveSubdomain(table : Table) {
+        const subdomain = table.name;
+        if (!this._converter.kb.isEntity(table.name))
+            return;
+        const domain = await this._converter.kb.getTopLevelDomain([subdomain]);
+        table.name = this._converter.schema.getTable(domain);
+        const value = await this._converter.helper.convertValue(
+            ENTITY_PREFIX + subdomain, 
+            new Type.Entity(`${TP_DEVICE_NAME}:${table.name}_subdomain`)
+        ) as Ast.EntityValue ;
+        table.filters.unshift(new Ast.AtomBooleanExpression(
+            null,
+            'instance_of',
+            '==',
+            value,
+            null
+        ));
+    }
+
+    /**
+     * If there is property not available in the domain of the table, use 'entity' domain 
+     * @param table a table
+     */
+    private async _resolveMissingProperties(table : Table) {
+        const properties = [];
+        for (const filter of table.filters) 
+            properties.push(...getPropertiesInFilter(filter));
+        for (const proj of table.projections) {
+            const prop = proj.property;
+            if (typeof prop === 'string') {
+                if (prop.endsWith('Label')) 
+                    continue;
+                if (prop.includes('.'))
+                    continue;
+                properties.push(prop);
+            } else if (prop instanceof Ast.ComputationValue) {
+                for (const operand of prop.operands) {
+                    if (operand instanceof Ast.VarRefValue)
+                        properties.push(operand.name);
                 }
+            } else if (prop instanceof Ast.FilterValue) {
+                properties.push((prop.value as Ast.VarRefValue).name);
+            } else if (prop instanceof Ast.ArrayFieldValue) {
+                const filterValue = prop.value as Ast.FilterValue;
+                properties.push((filterValue.value as Ast.VarRefValue).name);
+            } else { 
+                properties.push(prop[0].property);
             }
+        }
 
-            const query = this._converter.class.getFunction('query', table.name)!; 
-            if (properties.some((prop) => !query.args.includes(prop))) {
-                table.name = 'entity';
-                if (table.filters.some((f) => f instanceof Ast.AtomBooleanExpression && f.name === 'instance_of'))
-                    continue;
-                const idFilter = table.filters.find((f) => f instanceof Ast.AtomBooleanExpression && f.name === 'id');
-                if (idFilter) {
+        const query = this._converter.class.getFunction('query', table.name)!; 
+        if (properties.some((prop) => !query.args.includes(prop))) {
+            table.name = 'entity';
+            if (table.filters.some((f) => f instanceof Ast.AtomBooleanExpression && f.name === 'instance_of'))
+                return;
+            // id filters, including the disjunction of ids from VALUES 
+            const idFilters = table.filters
+                .flatMap((f) => f instanceof Ast.OrBooleanExpression ? f.operands : [f])
+                .filter((f) => f instanceof Ast.AtomBooleanExpression && f.name === 'id');
+            if (idFilters.length > 0) {
+                for (const idFilter of idFilters) {
                     const value = (idFilter as Ast.AtomBooleanExpression).value;
                     (value as Ast.EntityValue).type = `${TP_DEVICE_NAME}:entity`;
-                    continue;
                 }
-                const qid = query.getImplementationAnnotation('wikidata_subject');
-                const value = await this._converter.helper.convertValue(
-                    ENTITY_PREFIX + qid, 
-                    new Type.Entity(`${TP_DEVICE_NAME}:entity_subdomain`)
-                );
-                table.filters.push(new Ast.AtomBooleanExpression(
-                    null,
-                    'instance_of', 
-                    '==',
-                    value,
-                    null
-                ));
+                return;
             }
+            const qid = query.getImplementationAnnotation('wikidata_subject');
+            const value = await this._converter.helper.convertValue(
+                ENTITY_PREFIX + qid, 
+                new Type.Entity(`${TP_DEVICE_NAME}:entity_subdomain`)
+            );
+            table.filters.push(new Ast.AtomBooleanExpression(
+                null,
+                'instance_of', 
+                '==',
+                value,
+                null
+            ));
         }
     }
 
@@ -427,10 +773,11 @@ export default class ConverterHelper {
         // if there are multiple tables:
         if (isSelectQuery(query)) {
         // (1) if there exist an ordering, the table project to the ordering should be chosen
-            if (query.order && query.order.length === 1) {
+            if (query.order && query.order.length > 0) {
                 const order = query.order[0];
                 const expression = order.expression;
-                assert(isVariable(expression));
+                if (!isVariable(expression))
+                    throw new UnsupportedError(`Unsupported: ordering on expression ${JSON.stringify(expression)}`);
                 for (const [subject, table] of Object.entries(tables)) {
                     if (table.projections.some((p) => p.variable === expression.value))
                         return subject;
@@ -457,7 +804,7 @@ export default class ConverterHelper {
             candidates.push(subject);
         }
         if (candidates.length === 0)
-            throw new Error('Failed to find the main subject');
+            throw new UnsupportedError('Failed to find the main subject');
         // (5) if there are still multiple candidates, sort by complexity
         function complexity(subject : string) : number {
             const table = tables[subject];
@@ -467,35 +814,64 @@ export default class ConverterHelper {
         return candidates[0];
     }
     
+    /**
+     * Make the query expression of a table with its filters, and the ordering 
+     * and limit if it comes from a nested sub-SELECT
+     * @param table a table
+     */
+    makeTableExpression(table : Table) : Ast.Expression {
+        let expression = this.addFilters(baseQuery(table.name), table.filters);
+        expression = this.addOrdering(expression, table, table.ordering);
+        expression = this.addLimit(expression, table.limit, table.offset);
+        return expression;
+    }
+
+    /**
+     * Check that every comparison between two variables has been converted into a 
+     * subquery, i.e., its two sides are properties of the main subject and another subject
+     */
+    checkComparisons() {
+        for (const comp of this._converter.comparison) {
+            if (!this._usedComparisons.has(comp))
+                throw new UnsupportedError(`Unsupported: comparison between ${comp.lhs} and ${comp.rhs}`);
+        }
+    }
+
     makeSubquery(mainSubject : string, subquerySubject : string) : Ast.BooleanExpression {
         const tables = this._converter.tables;
         const mainTable = tables[mainSubject];
         const subqueryTable = tables[subquerySubject];
-        const subquery = this.addFilters(baseQuery(subqueryTable.name), subqueryTable.filters);
-
-        // handle comparison of two entities with subquery  
-        if (this._converter.comparison.length === 1) {
-            const comp = this._converter.comparison[0];
-            const mainProperty = mainTable.projections.find((proj) => 
-                proj.variable && (proj.variable === comp.lhs || proj.variable === comp.rhs)
-            )!.property as string;
-            const subqueryProperty = subqueryTable.projections.find((proj) => 
-                proj.variable && (proj.variable === comp.lhs || proj.variable === comp.rhs)
-            )!.property as string;
-            return new Ast.ComparisonSubqueryBooleanExpression(
+        const subquery = this.makeTableExpression(subqueryTable);
+
+        // handle comparisons of two entities with subqueries, one for each comparison between the two tables
+        const comparisons : Ast.BooleanExpression[] = [];
+        for (const comp of this._converter.comparison) {
+            const mainProjection = mainTable.projections.find((proj) => proj.variable === comp.lhs || proj.variable === comp.rhs);
+            const subqueryProjection = subqueryTable.projections.find((proj) => 
+                proj.variable && proj.variable !== mainProjection?.variable && (proj.variable === comp.lhs || proj.variable === comp.rhs)
+            );
+            if (!mainProjection || !subqueryProjection)
+                continue;
+            if (typeof mainProjection.property !== 'string' || typeof subqueryProjection.property !== 'string')
+                throw new UnsupportedError(`Comparison on property path not supported`);
+            // if the main table has the right hand side of the comparison, flip the operator
+            const operator = mainProjection.variable === comp.lhs ? comp.operator : flipOperator(comp.operator);
+            this._usedComparisons.add(comp);
+            comparisons.push(new Ast.ComparisonSubqueryBooleanExpression(
                 null,
-                new Ast.Value.VarRef(mainProperty),
-                comp.operator,
-                new Ast.ProjectionExpression(null, subquery, [subqueryProperty], [], [], null),
+                new Ast.Value.VarRef(mainProjection.property),
+                operator,
+                new Ast.ProjectionExpression(null, subquery, [subqueryProjection.property], [], [], null),
                 null
-            );
-
-        } 
+            ));
+        }
+        if (comparisons.length > 0) 
+            return comparisons.length === 1 ? comparisons[0] : new Ast.AndBooleanExpression(null, comparisons);
         if (mainTable.projections.some((proj) => proj.variable === subquerySubject)) {
             const projection = mainTable.projections.find((proj) => proj.variable === subquerySubject);
             const property = projection!.property;
             if (typeof property !== 'string')
-                throw new Error(`Subquery on property path not supported`);
+                throw new UnsupportedError(`Subquery on property path not supported`);
             return new Ast.ComparisonSubqueryBooleanExpression(
                 null,
                 new Ast.Value.VarRef(property),
@@ -508,7 +884,7 @@ export default class ConverterHelper {
             const projection = subqueryTable.projections.find((proj) => proj.variable === mainSubject);
             const property = projection!.property;
             if (typeof property !== 'string')
-                throw new Error(`Subquery on property path not supported`);
+                throw new UnsupportedError(`Subquery on property path not supported`);
             return new Ast.ComparisonSubqueryBooleanExpression(
                 null,
                 new Ast.Value.VarRef('id'),
@@ -517,25 +893,62 @@ export default class ConverterHelper {
                 null
             );
         } 
-        throw new Error('Failed to generate subquery');
+        throw new UnsupportedError('Failed to generate subquery');
+    }
+
+    /**
+     * Make a boolean expression checking if a projected property is null (or empty for arrays)
+     * @param property the projected property
+     */
+    makeIsNullExpression(property : Projection['property']) : Ast.BooleanExpression {
+        if (typeof property === 'string') {
+            const propertyType = this._converter.schema.getPropertyType(property);
+            if (propertyType instanceof Type.Array) {
+                return new Ast.ComputeBooleanExpression(
+                    null,
+                    new Ast.Value.Computation('count', [new Ast.Value.VarRef(property)]),
+                    '==',
+                    new Ast.Value.Number(0)
+                );
+            } 
+            return new Ast.AtomBooleanExpression(null, property, '==', new Ast.Value.Null, null);
+        } 
+        if (property instanceof Ast.Value) 
+            return new Ast.ComputeBooleanExpression(null, property, '==', new Ast.Value.Null, null);
+        return new Ast.PropertyPathBooleanExpression(null, property, '==', new Ast.Value.Null, null);
     }
 
     async makeAtomBooleanExpression(property : string, 
                                     value : any, 
                                     operator ?: string, 
-                                    valueType ?: Type) : Promise<Ast.AtomBooleanExpression> {
+                                    valueType ?: Type) : Promise<Ast.BooleanExpression> {
         let propertyLabel;
         if (property.startsWith(PROPERTY_PREFIX)) {
             property = property.slice(PROPERTY_PREFIX.length);
             propertyLabel = this._converter.schema.getProperty(property);
+            if (!propertyLabel)
+                throw new MissingSchemaPropertyError(property);
         } else {
             propertyLabel = property;
         }
         const propertyType = this._converter.schema.getPropertyType(propertyLabel);
         if (operator === '>' || operator === '<') 
             operator = operator + '=';
+        if (operator === '=')
+            operator = undefined;
         if (valueType === Type.String) 
             operator = propertyType instanceof Type.Array ? 'contains~' : '=~';
+        // a date in a decade or a century mentioned in the utterance becomes a date range
+        if (propertyType === Type.Date && valueType === undefined && (!operator || operator === '==')) {
+            const range = this._value.getDateRange(value);
+            if (range) {
+                return new Ast.AndBooleanExpression(null, [
+                    new Ast.AtomBooleanExpression(null, propertyLabel, '>=', new Ast.DateValue(new Ast.DatePiece(range[0], null, null, null)), null),
+                    // up to the last day of the range, so that any date in the last year is included
+                    new Ast.AtomBooleanExpression(null, propertyLabel, '<=', new Ast.DateValue(new Ast.DatePiece(range[1], 12, 31, null)), null)
+                ]);
+            }
+        }
         return new Ast.AtomBooleanExpression(
             null,
             propertyLabel,
@@ -1,4 +1,3 @@
-import assert from 'assert';
 import { Triple } from 'sparqljs';
 import { 
     isVariable,
@@ -9,6 +8,7 @@ import {
 } from '../../utils/sparqljs-typeguard';
 import { Predicate } from '../sparql2thingtalk';
 import SPARQLToThingTalkConverter from '../sparql2thingtalk';
+import { UnsupportedError, MissingSchemaPropertyError } from '../errors';
 import { 
     PROPERTY_PREDICATE_PREFIX, 
     PROPERTY_QUALIFIER_PREFIX, 
@@ -67,7 +67,8 @@ export default class PredicateParser {
     }
     
     async parse(triple : Triple) {
-        assert(isWikidataPredicateNode(triple.predicate));
+        if (!isWikidataPredicateNode(triple.predicate))
+            throw new UnsupportedError(`Unsupported predicate: ${JSON.stringify(triple.predicate)}`);
         const subject : string = triple.subject.value;
         const predicate : string = triple.predicate.value;
         const object : string = triple.object.value;
@@ -75,7 +76,7 @@ export default class PredicateParser {
         if (isWikidataPropertyPredicateNode(triple.predicate)) {
             const property = this._converter.schema.getProperty(predicate.slice(PROPERTY_PREDICATE_PREFIX.length));
             if (!property)
-                throw new Error(`Failed to find property ${predicate} in schema`);
+                throw new MissingSchemaPropertyError(predicate);
             this.addOrUpdatePredicate({
                 table: subject,
                 property,
@@ -85,7 +86,7 @@ export default class PredicateParser {
         } else if (isWikidataPropertyQualifierNode(triple.predicate)) {
             const property = this._converter.schema.getProperty(predicate.slice(PROPERTY_QUALIFIER_PREFIX.length));
             if (!property)
-                throw new Error(`Failed to find property ${predicate} in schema`);
+                throw new MissingSchemaPropertyError(predicate);
             this.addOrUpdatePredicate({
                 predicate_variable: subject,
                 qualifiers: [{
@@ -98,7 +99,7 @@ export default class PredicateParser {
         } else if (isWikidataPropertyStatementNode(triple.predicate)) {
             const property = this._converter.schema.getProperty(predicate.slice(PROPERTY_STATEMENT_PREFIX.length));
             if (!property)
-                throw new Error(`Failed to find property ${predicate} in schema`);
+                throw new MissingSchemaPropertyError(predicate);
             this.addOrUpdatePredicate({
                 property,
                 predicate_variable: subject,
@@ -126,7 +127,8 @@ export default class PredicateParser {
     }
 
     async _convertPredicate(predicate : Predicate) {
-        assert(predicate.table && predicate.property && predicate.qualifiers.length > 0);
+        if (!predicate.table || !predicate.property || predicate.qualifiers.length === 0)
+            throw new UnsupportedError(`Unsupported statement without a subject, a property, or qualifiers: ${JSON.stringify(predicate)}`);
 
         const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
         if (predicate.value) { 
@@ -1,4 +1,3 @@
-import assert from 'assert';
 import { 
     BgpPattern, 
     Triple
@@ -13,6 +12,8 @@ import {
     isLiteral,
     isVariable,
     isUnaryPropertyPath,
+    isInversePropertyPath,
+    isAlternativePropertyPath,
     isWikidataPredicateNode
 } from '../../utils/sparqljs-typeguard';
 import { 
@@ -28,6 +29,7 @@ import SPARQLToThingTalkConverter from "../sparql2thingtalk";
 import {
     elemType
 } from '../../utils/thingtalk';
+import { UnsupportedError, MissingSchemaPropertyError } from '../errors';
 
 export default class TripleParser {
     private _converter : SPARQLToThingTalkConverter;
@@ -36,13 +38,25 @@ export default class TripleParser {
         this._converter = converter;
     }
 
+    /**
+     * @param predicate the IRI of a Wikidata property
+     * @returns the name of the property in the schema
+     */
+    private _getProperty(predicate : string) : string {
+        const property = this._converter.schema.getProperty(predicate.slice(PROPERTY_PREFIX.length));
+        if (!property)
+            throw new MissingSchemaPropertyError(predicate);
+        return property;
+    }
+
     /**
      * Convert a basic triple to ThingTalk filter
      * @param triple a parsed Triple for SPARQL
      * @returns the subject and the ThingTalk filter
      */
     private async _parseBasicTriple(triple : Triple) : Promise<ArrayCollection<Ast.BooleanExpression>> {
-        assert(isNamedNode(triple.predicate));
+        if (!isNamedNode(triple.predicate))
+            throw new UnsupportedError(`Unsupported predicate: ${JSON.stringify(triple.predicate)}`);
         const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
         const filters : Ast.BooleanExpression[] = [];
         const subject : string = triple.subject.value;
@@ -50,15 +64,15 @@ export default class TripleParser {
         const object : string = triple.object.value;
 
         if (!subject || !predicate || !object)
-            throw new Error(`Unsupported triple: ${JSON.stringify(triple)}`);
+            throw new UnsupportedError(`Unsupported triple: ${JSON.stringify(triple)}`);
 
         // Case 0: if subject is an entity, create an id filter first
         // if the subject is already in the tables, it means we already have the id filter, so no need to run this again
         if (isWikidataEntityNode(triple.subject) && !(subject in this._converter.tables)) {
             const domain = await this._converter.kb.getDomain(subject.slice(ENTITY_PREFIX.length));
-            assert(domain);
-            const table = this._converter.schema.getTable(domain);
-            assert(table);
+            const table = domain ? this._converter.schema.getTable(domain) : null;
+            if (!domain || !table)
+                throw new UnsupportedError(`Unsupported: entity without a domain in the schema: ${subject}`);
             filters.push(new Ast.AtomBooleanExpression(
                 null,
                 'id',
@@ -82,7 +96,9 @@ export default class TripleParser {
             if (predicate === LABEL) {
                 filters.push(new Ast.AtomBooleanExpression(null, 'id', '=~', new Ast.Value.String(object), null));
             } else {  
-                const valueType = isLiteral(triple.object) ? Type.String : undefined; 
+                // literals are matched as strings, except for locations
+                const propertyType = this._converter.schema.getPropertyType(this._getProperty(predicate));
+                const valueType = isLiteral(triple.object) && elemType(propertyType) !== Type.Location ? Type.String : undefined; 
                 const filter = await this._converter.helper.makeAtomBooleanExpression(predicate, object, undefined, valueType);
                 filters.push(filter);
             }
@@ -99,7 +115,7 @@ export default class TripleParser {
                     }
                 }
             } else {
-                const property = this._converter.schema.getProperty(predicate.slice(PROPERTY_PREFIX.length));
+                const property = this._getProperty(predicate);
                 this._converter.updateTable(subject, { variable: object, property });
             }
             
@@ -108,14 +124,15 @@ export default class TripleParser {
             const filter = await this._converter.helper.makeAtomBooleanExpression(predicate, object);
             this._converter.updateTable(subject, filter);
         } else {
-            throw new Error('Unexpected triple: ' + triple);
+            throw new UnsupportedError(`Unsupported triple: ${JSON.stringify(triple)}`);
         }
         filtersBySubject.add(subject, ...filters);
         return filtersBySubject;
     }
 
     private async _parseSequencePathTriple(triple : Triple) : Promise<ArrayCollection<Ast.BooleanExpression>> {
-        assert(isPropertyPath(triple.predicate));
+        if (!isPropertyPath(triple.predicate))
+            throw new UnsupportedError(`Unsupported predicate: ${JSON.stringify(triple.predicate)}`);
         const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
         const filters : Ast.BooleanExpression[] = [];
         const subject = triple.subject.value;
@@ -125,9 +142,9 @@ export default class TripleParser {
         // if subject is an entity, create an id filter
         if (isWikidataEntityNode(triple.subject) && !(subject in this._converter.tables)) {
             const domain = await this._converter.kb.getDomain(subject.slice(ENTITY_PREFIX.length));
-            assert(domain);
-            const table = this._converter.schema.getTable(domain);
-            assert(table);
+            const table = domain ? this._converter.schema.getTable(domain) : null;
+            if (!domain || !table)
+                throw new UnsupportedError(`Unsupported: entity without a domain in the schema: ${subject}`);
             filters.push(new Ast.AtomBooleanExpression(
                 null,
                 'id',
@@ -140,20 +157,26 @@ export default class TripleParser {
 
         const sequence : Ast.PropertyPathSequence = [];
         if (predicate.items.length === 1) {
-            assert(isNamedNode(predicate.items[0]));
-            const property = this._converter.schema.getProperty(predicate.items[0].value.slice(PROPERTY_PREFIX.length));
+            if (!isNamedNode(predicate.items[0]))
+                throw new UnsupportedError(`Unsupported property path: ${JSON.stringify(predicate)}`);
+            const property = this._getProperty(predicate.items[0].value);
             sequence.push(new Ast.PropertyPathElement(property, predicate.pathType as '*'|'+'));
         } else {
             // sequence property path
-            assert(predicate.pathType === '/');
+            if (predicate.pathType !== '/')
+                throw new UnsupportedError(`Unsupported property path: ${JSON.stringify(predicate)}`);
             for (const element of predicate.items) {
                 if (isWikidataPropertyNode(element)) {
-                    const property = this._converter.schema.getProperty(element.value.slice(PROPERTY_PREFIX.length));
+                    const property = this._getProperty(element.value);
                     sequence.push(new Ast.PropertyPathElement(property));
                 } else if (isUnaryPropertyPath(element)) {
-                    assert(element.items.length === 1 && isNamedNode(element.items[0]));
-                    const property = this._converter.schema.getProperty(element.items[0].value.slice(PROPERTY_PREFIX.length));
+                    const item = element.items[0];
+                    if (element.items.length !== 1 || !isNamedNode(item))
+                        throw new UnsupportedError(`Unsupported property path element: ${JSON.stringify(element)}`);
+                    const property = this._getProperty(item.value);
                     sequence.push(new Ast.PropertyPathElement(property, element.pathType as '*'|'+'));
+                } else {
+                    throw new UnsupportedError(`Unsupported property path element: ${JSON.stringify(element)}`);
                 }
             }
         }
@@ -175,15 +198,68 @@ export default class TripleParser {
         return filtersBySubject;
     }
         
+    /**
+     * Convert a triple with an inverse property path by swapping the subject and 
+     * the object, the two tables will then be connected with a subquery
+     * @param triple a parsed Triple for SPARQL
+     */
+    private async _parseInversePathTriple(triple : Triple) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        if (!isInversePropertyPath(triple.predicate))
+            throw new UnsupportedError(`Unsupported predicate: ${JSON.stringify(triple.predicate)}`);
+        if (isLiteral(triple.object))
+            throw new UnsupportedError(`Unsupported: inverse property path with a literal: ${JSON.stringify(triple)}`);
+        return this._parseTriple({
+            subject: triple.object,
+            predicate: triple.predicate.items[0],
+            object: triple.subject
+        });
+    }
+
+    /**
+     * Convert a triple with an alternative property path into an OR filter 
+     * over the same subject. Only alternatives of direct properties with a value 
+     * are supported, they are checked before parsing, so that an unsupported path 
+     * leaves the tables untouched
+     * @param triple a parsed Triple for SPARQL
+     */
+    private async _parseAlternativePathTriple(triple : Triple) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        if (!isAlternativePropertyPath(triple.predicate))
+            throw new UnsupportedError(`Unsupported property path: ${JSON.stringify(triple.predicate)}`);
+        if (!isVariable(triple.subject) || !(isLiteral(triple.object) || isWikidataEntityNode(triple.object)))
+            throw new UnsupportedError(`Unsupported: alternative property path without a value: ${JSON.stringify(triple)}`);
+        const predicates = triple.predicate.items;
+        for (const predicate of predicates) {
+            // P31 updates the domain of the subject instead of adding a filter
+            if (!isWikidataPropertyNode(predicate) || predicate.value === PROPERTY_PREFIX + 'P31')
+                throw new UnsupportedError(`Unsupported alternative property path: ${JSON.stringify(triple)}`);
+            this._getProperty(predicate.value);
+        }
+
+        const subject = triple.subject.value;
+        const operands : Ast.BooleanExpression[] = [];
+        for (const predicate of predicates) {
+            const filtersBySubject = await this._parseBasicTriple({ subject: triple.subject, predicate, object: triple.object });
+            const filters = filtersBySubject.get(subject);
+            operands.push(filters.length === 1 ? filters[0] : new Ast.AndBooleanExpression(null, filters));
+        }
+        return new ArrayCollection(subject, new Ast.OrBooleanExpression(null, operands));
+    }
+
+    private async _parseTriple(triple : Triple) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        triple.predicate = postprocessPropertyPath(triple.predicate);
+        if (isInversePropertyPath(triple.predicate))
+            return this._parseInversePathTriple(triple);
+        if (isAlternativePropertyPath(triple.predicate))
+            return this._parseAlternativePathTriple(triple);
+        if (isPropertyPath(triple.predicate))
+            return this._parseSequencePathTriple(triple);
+        return this._parseBasicTriple(triple);
+    }
+        
     async parse(pattern : BgpPattern) : Promise<ArrayCollection<Ast.BooleanExpression>> {
         const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
-        for (const triple of pattern.triples) {
-            triple.predicate = postprocessPropertyPath(triple.predicate);
-            if (isPropertyPath(triple.predicate))
-                filtersBySubject.merge(await this._parseSequencePathTriple(triple));
-            else 
-                filtersBySubject.merge(await this._parseBasicTriple(triple));
-        }
+        for (const triple of pattern.triples) 
+            filtersBySubject.merge(await this._parseTriple(triple));
         return filtersBySubject;
     }
 
@@ -1,16 +1,15 @@
-import assert from 'assert';
 import { Ast, Type } from "thingtalk";
 import * as Units from 'thingtalk-units';
 import wordsToNumbers from 'words-to-numbers';
 import { ENTITY_PREFIX } from "../../utils/wikidata";
-import { ENTITY_SPAN_OVERRIDE } from '../../utils/qald';
 import SPARQLToThingTalkConverter from '../sparql2thingtalk';
-import { closest } from '../../utils/misc';
+import { findUnit } from '../../utils/units';
+import { UnsupportedError } from '../errors';
 
-// TODO: more nl to thingtalk units 
-const unitsMapper : Record<string, string> = {
-    'meters': 'm',
-};
+const MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june', 
+    'july', 'august', 'september', 'october', 'november', 'december'
+];
 
 export interface ValueConverterOptions {
     prefix ?: string
@@ -25,56 +24,117 @@ export default class ValueConverter {
         this._prefix = options?.prefix ?? ENTITY_PREFIX;
     }
 
-    private async _getEntityDisplay(qid : string) {
-        const wikidataLabel = await this._converter.kb.getLabel(qid);
-        assert(wikidataLabel);
-        const display = closest(wikidataLabel, this._converter.keywords);
-        if (display)
-            return display;
-        const wikidataAltLabels = await this._converter.kb.getAltLabels(qid);
-        for (const altLabel of wikidataAltLabels) {
-            const display = closest(altLabel, this._converter.keywords);
-            if (display)
-                return display;
-        }
-        if (qid in ENTITY_SPAN_OVERRIDE) 
-            return closest(ENTITY_SPAN_OVERRIDE[qid], this._converter.keywords);
-        return null;
+    private async _getEntityDisplay(qid : string) : Promise<string|null> {
+        const span = await this._converter.aligner.align(qid, this._converter.tokens);
+        return span ? span.display : null;
     }
 
+    /**
+     * Find the measure in the utterance with a unit of the same base unit
+     * @param value the value in SPARQL
+     * @param baseUnit the base unit of the measure type
+     * @returns the number and the unit, or the value in SPARQL with the base unit if
+     *          no measure with a unit is mentioned in the utterance
+     */
     private _getMeasure(value : number, baseUnit : string) : [number, string] {
         const tokens = wordsToNumbers(this._converter.utterance!)!.toString().split(' ');
-        for (let i = 0; i < tokens.length - 1; i ++) {
-            const number = parseFloat(tokens[i]);
-            if (isNaN(number))
+        for (let i = 0; i < tokens.length; i ++) {
+            // the unit can be attached to the number, e.g., 8848m
+            const match = /^(-?\d[\d,]*(?:\.\d+)?)(\D*)$/.exec(tokens[i]);
+            if (!match)
                 continue;
-            const unit = unitsMapper[tokens[i+1]];
+            const number = parseFloat(match[1].replace(/,/g, ''));
+            const unit = findUnit(match[2] ? [match[2], ...tokens.slice(i + 1)] : tokens.slice(i + 1));
             if (!unit)
                 continue;
             if (Units.normalizeUnit(unit) !== baseUnit)
                 continue;
             return [number, unit];
         }
-        throw new Error(`Failed to find matching measure in the utterance: ${value} ${baseUnit}`);
+        // the value in SPARQL is normalized, i.e., in the base unit
+        return [value, baseUnit];
+    }
+
+    /**
+     * Detect the precision of a date: Wikidata stores dates with year or month 
+     * precision as the first day of the year or month, check the utterance to see 
+     * if the month or the day is actually mentioned
+     * @param date a date 
+     */
+    private _getDatePrecision(date : Date) : 'year'|'month'|'day' {
+        if (date.getUTCDate() !== 1)
+            return 'day';
+        const tokens = this._converter.utterance!.toLowerCase().split(' ');
+        const month = MONTHS[date.getUTCMonth()];
+        const isMonthMentioned = tokens.some((token) => token === month || token === month.slice(0, 3));
+        if (isMonthMentioned && tokens.some((token) => ['1', '1st', 'first'].includes(token)))
+            return 'day';
+        if (isMonthMentioned || date.getUTCMonth() !== 0)
+            return 'month';
+        return 'year';
     }
 
     private _toThingTalkDate(value : string) : Ast.DateValue {
         const date = new Date(value);
-        return new Ast.DateValue(new Ast.DatePiece(date.getUTCFullYear(), date.getUTCMonth() + 1 , date.getUTCDate(), null));
+        switch (this._getDatePrecision(date)) {
+        case 'year':
+            return new Ast.DateValue(new Ast.DatePiece(date.getUTCFullYear(), null, null, null));
+        case 'month':
+            return new Ast.DateValue(new Ast.DatePiece(date.getUTCFullYear(), date.getUTCMonth() + 1, null, null));
+        default:
+            return new Ast.DateValue(new Ast.DatePiece(date.getUTCFullYear(), date.getUTCMonth() + 1 , date.getUTCDate(), null));
+        }
+    }
+
+    /**
+     * Find the decade (e.g., 1950s) or the century (e.g., 19th century, 1800s) 
+     * mentioned in the utterance that contains a date
+     * @param value a date in SPARQL
+     * @returns the first and the last year of the decade or century, or null if not found
+     */
+    getDateRange(value : string) : [number, number]|null {
+        const year = new Date(value).getUTCFullYear();
+        const utterance = wordsToNumbers(this._converter.utterance!)!.toString().toLowerCase();
+        const ranges : Array<[number, number]> = [];
+        for (const match of utterance.matchAll(/\b(\d{1,2})(?:st|nd|rd|th) century\b/g)) {
+            const century = parseInt(match[1]);
+            ranges.push([(century - 1) * 100, (century - 1) * 100 + 99]);
+        }
+        for (const match of utterance.matchAll(/\b(\d{2,3})0s\b/g)) {
+            // 1800s is a century, 1950s is a decade
+            const start = parseInt(match[1]) * 10;
+            ranges.push(start % 100 === 0 ? [start, start + 99] : [start, start + 9]);
+        }
+        return ranges.find(([start, end]) => year >= start && year <= end) ?? null;
+    }
+
+    /**
+     * Convert a WKT point literal, e.g., Point(13.38 52.51), into a location
+     * @param value a WKT point, longitude comes before latitude 
+     */
+    private _toThingTalkLocation(value : string) : Ast.LocationValue {
+        const match = /^Point\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)$/i.exec(value.trim());
+        if (!match)
+            throw new UnsupportedError(`Unsupported location value: ${value}`);
+        const [lon, lat] = [parseFloat(match[1]), parseFloat(match[2])];
+        return new Ast.LocationValue(new Ast.AbsoluteLocation(lat, lon));
     }
 
     async toThingTalkValue(value : any, type : Type) : Promise<Ast.Value> {
         if (type instanceof Type.Entity) {
-            assert(typeof value === 'string' && value.startsWith(this._prefix));
+            if (typeof value !== 'string' || !value.startsWith(this._prefix))
+                throw new UnsupportedError(`Unsupported value ${value} for entity type ${type}`);
             const qid = value.slice(this._prefix.length);
             const display = await this._getEntityDisplay(qid);
             return new Ast.Value.Entity(qid, type.type, display); 
         } 
         if (type instanceof Type.Enum) {
-            assert(typeof value === 'string' && value.startsWith(this._prefix));
+            if (typeof value !== 'string' || !value.startsWith(this._prefix))
+                throw new UnsupportedError(`Unsupported value ${value} for enum type ${type}`);
             value = value.slice(this._prefix.length);
             const wikidataLabel = await this._converter.kb.getLabel(value);
-            assert(wikidataLabel);
+            if (!wikidataLabel)
+                throw new UnsupportedError(`Unsupported: enum value ${value} without a label`);
             return new Ast.Value.Enum(wikidataLabel); 
         }
         if (type instanceof Type.Measure) {
@@ -87,8 +147,10 @@ export default class ValueConverter {
             return new Ast.Value.String(value);
         if (type === Type.Date)
             return this._toThingTalkDate(value);
+        if (type === Type.Location)
+            return this._toThingTalkLocation(value);
         if (type instanceof Type.Compound)
             return this.toThingTalkValue(value, type.fields.value.type);
-        throw new Error('Unsupported value type: ' + type);
+        throw new UnsupportedError('Unsupported value type: ' + type);
     }
 }
\ No newline at end of file
@@ -1,31 +1,188 @@
 
 import * as fs from 'fs';
+import * as path from 'path';
 import * as stream from 'stream';
 import JSONStream from 'JSONStream';
 import * as argparse from 'argparse';
 import * as Tp from 'thingpedia';
 import * as ThingTalk from 'thingtalk';
+import { Ast } from 'thingtalk';
 import { I18n, DatasetStringifier, ThingTalkUtils, EntityUtils } from 'genie-toolkit';
-import { MANUAL_CONVERSION_WITH_DISPLAY, MANUAL_CONVERSION_WITHOUT_DISPLAY } from '../utils/qald';
+import { 
+    DatasetName,
+    DATASETS,
+    DEFAULT_MANUAL_CONVERSION, 
+    loadManualConversions 
+} from '../utils/qald';
 import { waitFinish } from '../utils/misc';
 
 import SPARQLToThingTalkConverter from "./sparql2thingtalk";
-import { TP_DEVICE_NAME } from '../utils/wikidata';
+import ThingTalkToSPARQLConverter from "./thingtalk2sparql";
+import WikidataUtils, { TP_DEVICE_NAME, reportCacheMisses } from '../utils/wikidata';
+import WikidataDumpUtils from '../utils/wikidata-dump';
+import { KnowledgeBase } from '../utils/knowledge-base';
+import { 
+    EntityDisplayNotFoundError, 
+    TypecheckError, 
+    FailureReport,
+    getErrorCategory
+} from './errors';
 
 export {
-    SPARQLToThingTalkConverter
+    SPARQLToThingTalkConverter,
+    ThingTalkToSPARQLConverter
 };
 
+class MissingEntityDisplayVisitor extends Ast.NodeVisitor {
+    entities : string[] = [];
+
+    visitEntityValue(value : Ast.EntityValue) {
+        if (value.value && !value.display)
+            this.entities.push(value.value);
+        return true;
+    }
+}
+
+/**
+ * Check that every entity in the program has a display, which is required
+ * for the entity to be found in the utterance when serializing the program
+ */
+function checkEntityDisplay(program : Ast.Node) {
+    const visitor = new MissingEntityDisplayVisitor();
+    program.visit(visitor);
+    if (visitor.entities.length > 0)
+        throw new EntityDisplayNotFoundError(visitor.entities[0]);
+}
+
+
+/**
+ * Insert the locale into a file path, when one file is generated per locale
+ * @param file the path to the file
+ * @param locale the locale tag
+ * @returns the path to the file for the locale, e.g., "test.de-DE.tsv" for "test.tsv"
+ */
+function localizePath(file : string, locale : string) : string {
+    const ext = path.extname(file);
+    return path.join(path.dirname(file), `${path.basename(file, ext)}.${locale}${ext}`);
+}
+
+interface ConversionOptions {
+    locale : string;
+    timezone : string|undefined;
+    dataset : DatasetName;
+    input : string;
+    output : string;
+    drop ?: string;
+    report ?: string;
+    offset : number;
+    include_entity_value : boolean;
+    exclude_entity_display : boolean;
+    cache : string;
+    bootleg_db : string;
+    sparql_endpoint ?: string;
+    kb ?: KnowledgeBase;
+    entity_span_override ?: string[];
+}
+
+/**
+ * Convert the questions of a dataset in one language
+ * @param options the conversion options, with the locale of the language
+ * @param classDef the class definition of the manifest
+ * @param schemas the schema retriever of the manifest
+ * @param manualConversions the typechecked manual conversions, by dataset id and question id, 
+ *                          only applied to English questions
+ */
+async function convertDataset(options : ConversionOptions, 
+                              classDef : Ast.ClassDef,
+                              schemas : ThingTalk.SchemaRetriever, 
+                              manualConversions : Record<string, Record<string, Ast.Program>>) {
+    const converter = new SPARQLToThingTalkConverter(classDef, options);
+    const tokenizer = I18n.get(options.locale).getTokenizer();
+    const adapter = DATASETS[options.dataset];
+
+    // the dataset id, if the file has one before the questions, is available when the first question is read;
+    // otherwise use the id of the dataset format
+    let dataset = adapter.id;
+    const jsonParser = JSONStream.parse('questions.*');
+    jsonParser.on('header', (header : any) => {
+        dataset = header.dataset?.id ?? adapter.id;
+    });
+    const input = fs.createReadStream(options.input).pipe(jsonParser).pipe(new stream.PassThrough({ objectMode: true }));
+    const output = new DatasetStringifier();
+    const outputFile = fs.createWriteStream(options.output);
+    output.pipe(outputFile);
+    const drop = options.drop ? fs.createWriteStream(options.drop) : null;
+    
+    const report = new FailureReport();
+    let counter = 0;
+    for await (const item of input) {
+        counter ++;
+        if (counter < options.offset)
+            continue;
+        const example = adapter.preprocess(item, converter.language);
+        if (!example)
+            continue;
+        const preprocessed = tokenizer.tokenize(example.utterance).rawTokens.join(' ');
+        try {
+            // the entity displays of the manual conversions are spans of the English questions
+            let program = converter.language === 'en' ? manualConversions[dataset]?.[example.id] : undefined;
+            if (!program) {
+                program = await converter.convert(example.sparql, preprocessed);
+                try {
+                    await program.typecheck(schemas);
+                } catch(e) {
+                    throw new TypecheckError((e as Error).message);
+                }
+            }
+            if (!options.exclude_entity_display)
+                checkEntityDisplay(program);
+            const target_code = ThingTalkUtils.serializePrediction(
+                program, 
+                preprocessed,
+                EntityUtils.makeDummyEntities(preprocessed), 
+                { 
+                    locale: options.locale, 
+                    timezone: options.timezone, 
+                    includeEntityValue: options.include_entity_value, 
+                    excludeEntityDisplay: options.exclude_entity_display
+                }
+            ).join(' ');
+            output.write({ id: example.id, preprocessed, target_code });
+            report.addSuccess();
+        } catch(e) {
+            console.log(`Example ${example.id} failed`);
+            report.addFailure(example.id, e);
+            if (drop)
+                drop.write(`${example.id}\t${preprocessed}\t${example.sparql}\t${getErrorCategory(e)}\t${(e as Error).message.replace(/\s+/g, ' ')}\n`);
+            else 
+                console.log((e as Error).message);
+        }
+    }
+    output.end();
+    await waitFinish(outputFile);
+    if (drop) {
+        drop.end();
+        await waitFinish(drop);
+    }
+    console.log(`[${options.locale}] ${report.toString()}`);
+    if (options.report) {
+        const reportFile = fs.createWriteStream(options.report);
+        reportFile.end(JSON.stringify(report.summarize(), null, 2));
+        await waitFinish(reportFile);
+    }
+}
 
 async function main() {
     const parser = new argparse.ArgumentParser({
         add_help : true,
-        description : "A tool to convert QALD-7 SPARQL to ThingTalk"
+        description : "A tool to convert QALD SPARQL to ThingTalk"
     });
     parser.add_argument('-l', '--locale', {
         required: false,
-        default: 'en-US',
-        help: `BGP 47 locale tag of the language to evaluate (defaults to 'en-US', English)`
+        nargs: '+',
+        default: ['en-US'],
+        help: `BGP 47 locale tags of the languages to evaluate (defaults to 'en-US', English); ` + 
+              `with multiple locales, one dataset is generated per locale, with the locale added to the output paths`
     });
     parser.add_argument('--timezone', {
         required: false,
@@ -44,17 +201,55 @@ async function main() {
         required: false,
         default: 'bootleg.sqlite'
     });
+    parser.add_argument('--sparql-endpoint', {
+        required: false,
+        help: `The SPARQL endpoint to query (defaults to the public Wikidata endpoint)`
+    });
+    parser.add_argument('--wikidata-dump', {
+        required: false,
+        help: `Path to a sqlite database of a Wikidata dump, to run offline instead of querying Wikidata`
+    });
+    parser.add_argument('--schemaorg', {
+        required: false,
+        help: `Path to a local copy of the schema.org JSON-LD definitions, used with --wikidata-dump`
+    });
+    parser.add_argument('--cache-keys', {
+        required: false,
+        help: 'Path to a JSON file to write the keys of the cache entries used, to export them with wikidata-cache'
+    });
+    parser.add_argument('--offline', {
+        action: 'store_true',
+        help: 'Never query Wikidata, only use the cache; requests missing from the cache are listed at the end',
+        default: false
+    });
+    parser.add_argument('--entity-span-override', {
+        required: false,
+        nargs: '+',
+        help: `JSON files mapping QIDs to their spans in the utterance, for entities that can't be aligned automatically`
+    });
+    parser.add_argument('--dataset', {
+        required: false,
+        choices: Object.keys(DATASETS),
+        default: 'qald7',
+        help: `The format of the input dataset (defaults to 'qald7')`
+    });
+    parser.add_argument('--manual-conversion', {
+        required: false,
+        default: DEFAULT_MANUAL_CONVERSION,
+        help: `Path to a JSON file of manual conversions, by dataset id and question id`
+    });
     parser.add_argument('-i', '--input', {
-        required: true,
-        type: fs.createReadStream
+        required: true
     });
     parser.add_argument('-o', '--output', {
-        required: true,
-        type: fs.createWriteStream
+        required: true
     });
     parser.add_argument('-d', '--drop', {
+        required: false
+    });
+    parser.add_argument('--report', {
         required: false,
-        type: fs.createWriteStream
+        help: `Path to a JSON file to write the summary of the failures, grouped by category`
     });
     parser.add_argument('--offset', {
         required: false,
@@ -75,51 +270,27 @@ async function main() {
     const tpClient = new Tp.FileClient({ thingpedia: './manifest.tt', locale: 'en' });
     const schemas = new ThingTalk.SchemaRetriever(tpClient, null, true);
     const classDef = await schemas.getFullMeta(TP_DEVICE_NAME);
-    const converter = new SPARQLToThingTalkConverter(classDef, args);
-    const tokenizer = new I18n.LanguagePack('en').getTokenizer();
+    const manualConversions = await loadManualConversions(args.manual_conversion, schemas);
+    // the knowledge base is shared across locales, labels in different languages are looked up separately
+    const kb = args.wikidata_dump ? 
+        new WikidataDumpUtils(args.wikidata_dump, args.bootleg_db, { schemaorg: args.schemaorg }) : 
+        new WikidataUtils(args.cache, args.bootleg_db, { endpoint: args.sparql_endpoint, offline: args.offline });
 
-    const input = args.input.pipe(JSONStream.parse('questions.*')).pipe(new stream.PassThrough({ objectMode: true }));
-    const output = new DatasetStringifier();
-    output.pipe(args.output);
-    
-    const manualConversion = args.exclude_entity_display ? MANUAL_CONVERSION_WITHOUT_DISPLAY : MANUAL_CONVERSION_WITH_DISPLAY;
-    let counter = 0;
-    for await (const item of input) {
-        counter ++;
-        if (counter < args.offset)
-            continue;
-        const preprocessed = tokenizer.tokenize(item.question[0].string).rawTokens.join(' ');
-        try {
-            if (item.query.sparql in manualConversion) {
-                output.write({ id: item.id, preprocessed, target_code: manualConversion[item.query.sparql] });
-            } else { 
-                const program = await converter.convert(item.query.sparql, preprocessed);
-                await program.typecheck(schemas);
-                const target_code = ThingTalkUtils.serializePrediction(
-                    program, 
-                    preprocessed,
-                    EntityUtils.makeDummyEntities(preprocessed), 
-                    { 
-                        locale: 'en', 
-                        timezone: undefined, 
-                        includeEntityValue: args.include_entity_value, 
-                        excludeEntityDisplay: args.exclude_entity_display
-                    }
-                ).join(' ');
-                output.write({ id: item.id, preprocessed, target_code });
-            }
-        } catch(e) {
-            console.log(`Example ${item.id} failed`);
-            if (args.drop)
-                args.drop.write(`${item.id}\t${preprocessed}\t${item.query.sparql}\t${(e as Error).message.replace(/\s+/g, ' ')}\n`);
-            else 
-                console.log((e as Error).message);
-        }
+    const locales : string[] = args.locale;
+    for (const locale of locales) {
+        const localize = (file : string) => locales.length > 1 ? localizePath(file, locale) : file;
+        await convertDataset({
+            ...args,
+            kb,
+            locale,
+            output: localize(args.output),
+            drop: args.drop ? localize(args.drop) : undefined,
+            report: args.report ? localize(args.report) : undefined
+        }, classDef, schemas, manualConversions);
     }
-    await waitFinish(input);
-    await waitFinish(output);
-    if (args.drop)
-        await waitFinish(args.drop);
+    if (args.cache_keys)
+        fs.writeFileSync(args.cache_keys, JSON.stringify(kb.cacheKeys, null, 2));
+    reportCacheMisses(kb);
 }
 
 if (require.main === module)
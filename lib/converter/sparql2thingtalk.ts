@@ -7,31 +7,43 @@ import {
     AskQuery,
     Pattern,
     Expression,
-    Grouping
+    Grouping,
+    Ordering,
+    Variable,
+    VariableTerm
 } from 'sparqljs';
 import {
     isFilterPattern,
     isBasicGraphPattern,
     isUnionPattern,
-    isSelectQuery
+    isOptionalPattern,
+    isMinusPattern,
+    isValuesPattern,
+    isBindPattern,
+    isGroupPattern,
+    isSelectQuery,
+    isVariable
 } from '../utils/sparqljs-typeguard';
 import ConverterHelper from './helpers';
 import { 
-    getSpans,
     ArrayCollection
 } from '../utils/misc';
 import WikidataUtils from '../utils/wikidata';
+import { KnowledgeBase } from '../utils/knowledge-base';
+import EntitySpanAligner from '../utils/span-aligner';
 import { WikiSchema as WikidataSchema } from '../schema';
 import {
     makeProgram,
     baseQuery
 } from '../utils/thingtalk';
+import { UnsupportedError } from './errors';
 
 
 export interface Projection {
-    property : string|Ast.PropertyPathSequence|Ast.FilterValue|Ast.ArrayFieldValue, 
+    property : string|Ast.PropertyPathSequence|Ast.FilterValue|Ast.ArrayFieldValue|Ast.ComputationValue, 
     variable ?: string,
-    type ?: string
+    type ?: string,
+    optional ?: boolean // projection from an OPTIONAL block, the value may be null
 }
 
 export interface Aggregation {
@@ -47,6 +59,16 @@ export interface Comparison {
     rhs : string
 }
 
+// group by is used when grouping a table by one of its properties
+// the filters are applied on the aggregated results
+export interface GroupBy {
+    subject : string,
+    property : string,
+    op : string,
+    field : string,
+    filters : Ast.BooleanExpression[]
+}
+
 export interface Predicate {
     table ?: string,
     property ?: string,
@@ -67,7 +89,11 @@ export interface Qualifier {
 export interface Table {
     name : string,
     projections : Projection[],
-    filters : Ast.BooleanExpression[]
+    filters : Ast.BooleanExpression[],
+    // ordering, limit, and offset from a nested sub-SELECT, applied on top of the filters
+    ordering ?: Ordering[],
+    limit ?: number,
+    offset ?: number
 }
 
 class QueryParser {
@@ -79,13 +105,18 @@ class QueryParser {
     
     private async _parseWhere(clauses : Pattern[]) {
         const filtersBySubject = new ArrayCollection<Ast.BooleanExpression>();
+        const bindings = ['values', 'bind'];
+        const filters = ['filter', 'minus'];
         // (1) parse non-filters
-        for (const clause of clauses.filter((clause) => clause.type !== 'filter')) 
+        for (const clause of clauses.filter((clause) => !bindings.includes(clause.type) && !filters.includes(clause.type))) 
+            filtersBySubject.merge(await this._parseWhereClause(clause));
+        // (2) parse values and binds, which refer to variables in the tables
+        for (const clause of clauses.filter((clause) => bindings.includes(clause.type))) 
             filtersBySubject.merge(await this._parseWhereClause(clause));
-        // (2) parse filters
-        for (const clause of clauses.filter((clause) => clause.type === 'filter')) 
+        // (3) parse filters, and minus clauses, which are negated filters
+        for (const clause of clauses.filter((clause) => filters.includes(clause.type))) 
             filtersBySubject.merge(await this._parseWhereClause(clause));
-        // (3) parse qualifiers
+        // (4) parse qualifiers
         
         for (const [subject, filters] of filtersBySubject.iterate()) {
             for (const filter of filters) 
@@ -100,14 +131,54 @@ class QueryParser {
             return this._converter.helper.parseFilter(clause);
         if (isUnionPattern(clause)) 
             return this._converter.helper.parseUnion(clause);
-        throw new Error(`Unsupported where clause ${JSON.stringify(clause)}`);
+        if (isOptionalPattern(clause))
+            return this._converter.helper.parseOptional(clause);
+        if (isMinusPattern(clause))
+            return this._converter.helper.parseExistence(clause.patterns, true);
+        if (isValuesPattern(clause))
+            return this._converter.helper.parseValues(clause);
+        if (isBindPattern(clause))
+            return this._converter.helper.parseBind(clause);
+        if (isSelectQuery(clause))
+            return this._parseSubquery(clause);
+        // a group in the where clause joins with the rest, e.g., the group wrapping a sub-select
+        if (isGroupPattern(clause)) {
+            await this._parseWhere(clause.patterns);
+            return new ArrayCollection<Ast.BooleanExpression>();
+        }
+        throw new UnsupportedError(`Unsupported where clause ${JSON.stringify(clause)}`);
+    }
+
+    /**
+     * Parse a nested sub-SELECT: its where clause is parsed into the tables as usual, 
+     * and its ordering and limit are attached to the table of the selected subject, 
+     * so that it becomes a nested sort/index expression
+     * @param query a nested select query
+     */
+    private async _parseSubquery(query : SelectQuery) : Promise<ArrayCollection<Ast.BooleanExpression>> {
+        if (query.group || query.having)
+            throw new UnsupportedError('Unsupported: sub-select with group by');
+        if (query.where)
+            await this._parseWhere(query.where);
+        if (!query.order && !query.limit && !query.offset)
+            return new ArrayCollection<Ast.BooleanExpression>();
+
+        const tables = this._converter.tables;
+        const variable = (query.variables as Variable[]).find((variable) => isVariable(variable) && variable.value in tables);
+        if (!variable)
+            throw new UnsupportedError('Unsupported: sub-select with ordering that does not select a subject');
+        const table = tables[(variable as VariableTerm).value];
+        if (table.ordering || table.limit)
+            throw new UnsupportedError('Unsupported: multiple sub-selects on the same subject');
+        table.ordering = query.order;
+        table.limit = query.limit;
+        table.offset = query.offset;
+        return new ArrayCollection<Ast.BooleanExpression>();
     }
 
     private async _parseHaving(group : Grouping[], having ?: Expression[]) {
-        if (group.length > 1)
-            throw new Error('Unsupported: group by with multiple fields');
         for (const clause of having ?? []) 
-            await this._converter.helper.parseGroup(clause, group[0]);
+            await this._converter.helper.parseGroup(clause, group);
     }
 
     private async _parsePredicates() {
@@ -142,40 +213,54 @@ class QueryGenerator {
     private async _generateSelectQuery(query : SelectQuery) : Promise<Ast.Expression> {
         const projectionsAndAggregationsBySubject = this._converter.helper.parseVariables(query.variables);
         if (projectionsAndAggregationsBySubject.size === 0)
-            throw new Error('No variable found in SPARQL');
+            throw new UnsupportedError('No variable found in SPARQL');
             
         await this._converter.helper.preprocessTables(projectionsAndAggregationsBySubject);
-        const mainSubject = this._converter.helper.getMainSubject(query);
+        const groupBy = this._converter.groupBy;
+        const mainSubject = groupBy ? groupBy.subject : this._converter.helper.getMainSubject(query);
         const table = this._converter.tables[mainSubject];
-        const filters = [...table.filters];
+        const isNested = !!(table.ordering || table.limit);
+        const filters = isNested ? [] : [...table.filters];
         for (const subject in this._converter.tables) {
             if (subject === mainSubject)
                 continue;
             filters.push(this._converter.helper.makeSubquery(mainSubject, subject));
         }
-        let expression : Ast.Expression = baseQuery(table.name);
+        let expression : Ast.Expression = isNested ? this._converter.helper.makeTableExpression(table) : baseQuery(table.name);
         expression = this._converter.helper.addFilters(expression, filters);
+        if (groupBy)
+            expression = this._converter.helper.addGroupBy(expression, groupBy);
         expression = this._converter.helper.addOrdering(expression, table, query.order);
-        expression = this._converter.helper.addLimit(expression, query.limit);
-        expression = this._converter.helper.addProjectionsAndAggregations(expression, mainSubject, projectionsAndAggregationsBySubject.get(mainSubject));
+        expression = this._converter.helper.addLimit(expression, query.limit, query.offset);
+        expression = this._converter.helper.addProjectionsAndAggregations(
+            expression, 
+            mainSubject, 
+            projectionsAndAggregationsBySubject.get(mainSubject), 
+            !!groupBy
+        );
         return expression;
     }
 
     private _generateAskQuery(query : AskQuery) : Ast.Expression {
+        if (this._converter.groupBy)
+            throw new UnsupportedError('Unsupported: group by in verification');
         const mainSubject = this._converter.helper.getMainSubject(query);
         const table = this._converter.tables[mainSubject];
-        const filters : Ast.BooleanExpression[] = [...table.filters];
+        const isNested = !!(table.ordering || table.limit);
+        const filters : Ast.BooleanExpression[] = isNested ? [] : [...table.filters];
         for (const subject in this._converter.tables) {
             if (subject === mainSubject)
                 continue;
             filters.push(this._converter.helper.makeSubquery(mainSubject, subject));
         }
         
-        return this._converter.helper.addVerification(baseQuery(table.name), filters, table.projections);
+        const base = isNested ? this._converter.helper.makeTableExpression(table) : baseQuery(table.name);
+        return this._converter.helper.addVerification(base, filters, table.projections);
     }
 
     async generate(query : SelectQuery|AskQuery) : Promise<Ast.Program> {
         const expression = isSelectQuery(query) ? (await this._generateSelectQuery(query)) : this._generateAskQuery(query);
+        this._converter.helper.checkComparisons();
         return makeProgram(expression).optimize();
     }
 }
@@ -184,20 +269,28 @@ class QueryGenerator {
 interface SPARQLToThingTalkConverterOptions {
     cache : string;
     bootleg_db : string;
+    sparql_endpoint ?: string;
+    // use the given knowledge base instead of Wikidata, cache and bootleg_db are then ignored
+    kb ?: KnowledgeBase;
+    locale ?: string;
+    entity_span_override ?: string[];
 }
 
 export default class SPARQLToThingTalkConverter {
     private _sparqlParser : SparqlParser;
     private _class : Ast.ClassDef;
     private _schema : WikidataSchema;
-    private _kb : WikidataUtils;
+    private _kb : KnowledgeBase;
+    private _aligner : EntitySpanAligner;
     private _helper : ConverterHelper;
+    private _locale : string;
     private _tokenizer : I18n.BaseTokenizer;
     private _utterance ?: string;
     private _sparql ?: string;
-    private _keywords : string[];
+    private _tokens : string[];
     private _tables : Record<string, Table>;
     private _crossTableComparison : Comparison[];
+    private _groupBy : GroupBy|null;
     private _parser : QueryParser;
     private _generator : QueryGenerator;
 
@@ -205,9 +298,11 @@ export default class SPARQLToThingTalkConverter {
         this._sparqlParser = new Parser();
         this._class = classDef;
         this._schema = new WikidataSchema(classDef);
-        this._kb = new WikidataUtils(options.cache, options.bootleg_db);
+        this._kb = options.kb ?? new WikidataUtils(options.cache, options.bootleg_db, { endpoint: options.sparql_endpoint });
+        this._locale = options.locale ?? 'en-US';
+        this._aligner = new EntitySpanAligner(this._kb, this.language, options.entity_span_override);
         this._helper = new ConverterHelper(this);
-        this._tokenizer = new I18n.LanguagePack('en').getTokenizer();
+        this._tokenizer = I18n.get(this._locale).getTokenizer();
         this._parser = new QueryParser(this);
         this._generator = new QueryGenerator(this);
 
@@ -215,14 +310,15 @@ export default class SPARQLToThingTalkConverter {
         this._sparql = undefined;
         this._tables = {};
         this._crossTableComparison = [];
-        this._keywords = [];
+        this._groupBy = null;
+        this._tokens = [];
     } 
 
     get class() : Ast.ClassDef {
         return this._class;
     }
     
-    get kb() : WikidataUtils {
+    get kb() : KnowledgeBase {
         return this._kb;
     }
 
@@ -230,6 +326,21 @@ export default class SPARQLToThingTalkConverter {
         return this._schema;
     }
 
+    get locale() : string {
+        return this._locale;
+    }
+
+    /**
+     * The language code of the locale, e.g., "en" for "en-US"
+     */
+    get language() : string {
+        return this._locale.split('-')[0];
+    }
+
+    get aligner() : EntitySpanAligner {
+        return this._aligner;
+    }
+
     get helper() : ConverterHelper {
         return this._helper;
     }
@@ -242,8 +353,12 @@ export default class SPARQLToThingTalkConverter {
         return this._crossTableComparison;
     }
 
-    get keywords() : string[] {
-        return this._keywords;
+    get groupBy() : GroupBy|null {
+        return this._groupBy;
+    }
+
+    get tokens() : string[] {
+        return this._tokens;
     }
 
     get sparql() : string|undefined {
@@ -257,12 +372,15 @@ export default class SPARQLToThingTalkConverter {
     updateTable(subject : string, update : Ast.BooleanExpression|Projection|string) {
         if (!(subject in this._tables)) 
             this._tables[subject] = { name: 'entity', projections: [], filters: [] };
-        if (update instanceof Ast.BooleanExpression)  
+        if (update instanceof Ast.BooleanExpression) {
+            if (this._tables[subject].ordering || this._tables[subject].limit)
+                throw new UnsupportedError('Unsupported: filter on the result of a sub-select');
             this._tables[subject].filters.push(update);
-        else if (typeof update === 'string') 
+        } else if (typeof update === 'string') {
             this._tables[subject].name = this._schema.getTable(update) ?? update;
-        else 
+        } else {
             this._tables[subject].projections.push(update);
+        }
     }
     
     removeTable(subject : string) {
@@ -274,7 +392,7 @@ export default class SPARQLToThingTalkConverter {
         for (let i = 0; i < projections.length; i++) {
             const projection = projections[i];
             if (projection.variable! === variable) {
-                projections.splice(i);
+                projections.splice(i, 1);
                 break;
             }
         }
@@ -284,13 +402,26 @@ export default class SPARQLToThingTalkConverter {
         this._crossTableComparison.push(comp);
     }
 
+    updateGroupBy(groupBy : GroupBy) {
+        if (!this._groupBy) {
+            this._groupBy = groupBy;
+            return;
+        }
+        const existing = this._groupBy;
+        if (existing.subject !== groupBy.subject || existing.property !== groupBy.property || 
+            existing.op !== groupBy.op || existing.field !== groupBy.field)
+            throw new UnsupportedError('Unsupported: multiple aggregations in group by');
+        existing.filters.push(...groupBy.filters);
+    }
+
     private _init(sparql : string, utterance : string) {
         this._sparql = sparql;
         this._utterance = utterance;
         this._tables = {};
         this._crossTableComparison = [];
+        this._groupBy = null;
         this._helper.init();
-        this._keywords = getSpans(this._tokenizer.tokenize(this._utterance).rawTokens.join(' '));
+        this._tokens = this._tokenizer.tokenize(this._utterance).rawTokens;
     }
 
     async convert(sparql : string, utterance : string) : Promise<Ast.Program> {
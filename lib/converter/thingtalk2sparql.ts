@@ -0,0 +1,565 @@
+import { Ast, Type } from 'thingtalk';
+import * as Units from 'thingtalk-units';
+import { WikiSchema as WikidataSchema } from '../schema';
+import { elemType } from '../utils/thingtalk';
+
+// the QID of the generic "entity" domain, no domain constraint is needed for it
+const ENTITY_DOMAIN = 'Q35120';
+
+// QIDs for the enum values of sex or gender (P21)
+const ENUM_VALUES : Record<string, string> = {
+    female: 'Q6581072',
+    male: 'Q6581097'
+};
+
+// ThingTalk stores measures in its own base units, Wikidata normalizes quantities to SI units
+const SI_CONVERSION : Record<string, (value : number) => number> = {
+    ms: (value : number) => value / 1000,
+    C: (value : number) => value + 273.15
+};
+
+interface Ordering {
+    variable : string,
+    direction : 'asc'|'desc'
+}
+
+interface Aggregation {
+    op : string,
+    variable : string
+}
+
+/**
+ * A partial SPARQL query, the state of a query (or a sub-select) being converted
+ */
+interface QueryState {
+    projections : string[],
+    aggregation ?: Aggregation,
+    orderings : Ordering[],
+    limit ?: number,
+    offset ?: number,
+    verification ?: Ast.BooleanExpression
+}
+
+export default class ThingTalkToSPARQLConverter {
+    private _class : Ast.ClassDef;
+    private _schema : WikidataSchema;
+    private _variableCounter : number;
+    // variables already bound for a property of a subject, Record<`${subject}|${property}`, variable>
+    private _variables : Record<string, string>;
+
+    constructor(classDef : Ast.ClassDef) {
+        this._class = classDef;
+        this._schema = new WikidataSchema(classDef);
+        this._variableCounter = 0;
+        this._variables = {};
+    }
+
+    get class() : Ast.ClassDef {
+        return this._class;
+    }
+
+    private _init() {
+        this._variableCounter = 0;
+        this._variables = {};
+    }
+
+    private _newVariable() : string {
+        this._variableCounter += 1;
+        return `?v${this._variableCounter}`;
+    }
+
+    private _getPropertyId(property : string) : string {
+        const pid = this._schema.getPropertyId(property);
+        if (!pid)
+            throw new Error(`Failed to find property ${property} in schema`);
+        return pid;
+    }
+
+    /**
+     * Get the type of a property, or a field of the statement for qualified properties
+     * @param property the name of the property (or the field)
+     * @param statementOf the name of the qualified property if the property is a field
+     */
+    private _getPropertyType(property : string, statementOf ?: string) : Type {
+        if (statementOf) {
+            if (property === 'value')
+                return elemType(this._schema.getPropertyType(statementOf));
+            return this._schema.getPropertyType(`${statementOf}.${property}`);
+        }
+        return this._schema.getPropertyType(property);
+    }
+
+    /**
+     * Get the SPARQL predicate for a property
+     * @param property the name of the property (or the field)
+     * @param statementOf the name of the qualified property if the property is a field
+     */
+    private _predicate(property : string, statementOf ?: string) : string {
+        if (statementOf) {
+            if (property === 'value')
+                return `ps:${this._getPropertyId(statementOf)}`;
+            return `pq:${this._getPropertyId(`${statementOf}.${property}`)}`;
+        }
+        if (property.includes('.')) {
+            const [base, qualifier] = property.split('.');
+            return `p:${this._getPropertyId(base)}/pq:${this._getPropertyId(`${base}.${qualifier}`)}`;
+        }
+        const pid = this._getPropertyId(property);
+        // compare measures on normalized values, so that units do not matter
+        if (elemType(this._getPropertyType(property)) instanceof Type.Measure)
+            return `p:${pid}/psn:${pid}/wikibase:quantityAmount`;
+        return `wdt:${pid}`;
+    }
+
+    private _propertyPath(path : Ast.PropertyPathSequence) : string {
+        return path.map((elem) => {
+            const predicate = `wdt:${this._getPropertyId(elem.property)}`;
+            return elem.quantifier ? `${predicate}${elem.quantifier}` : predicate;
+        }).join('/');
+    }
+
+    /**
+     * Bind a property of a subject to a variable, reuse the existing variable if
+     * the property has been bound before
+     * @returns the variable and the triple to add (empty if the variable exists)
+     */
+    private _bindProperty(subject : string, property : string) : [string, string] {
+        if (property === 'id')
+            return [subject, ''];
+        const key = `${subject}|${property}`;
+        if (key in this._variables)
+            return [this._variables[key], ''];
+        const variable = this._newVariable();
+        this._variables[key] = variable;
+        return [variable, `${subject} ${this._predicate(property)} ${variable} .`];
+    }
+
+    private _convertDate(value : Ast.DateValue) : string {
+        const date = value.value;
+        if (date === null)
+            return 'NOW()';
+        if (date instanceof Date)
+            return `"${date.toISOString()}"^^xsd:dateTime`;
+        if (date instanceof Ast.DatePiece) {
+            const year = String(date.year ?? new Date().getUTCFullYear()).padStart(4, '0');
+            const month = String(date.month ?? 1).padStart(2, '0');
+            const day = String(date.day ?? 1).padStart(2, '0');
+            return `"${year}-${month}-${day}T00:00:00Z"^^xsd:dateTime`;
+        }
+        throw new Error(`Unsupported date value: ${value.prettyprint()}`);
+    }
+
+    /**
+     * Convert a ThingTalk value into a SPARQL term
+     * @param value a ThingTalk value
+     */
+    private _convertValue(value : Ast.Value) : string {
+        if (value instanceof Ast.EntityValue) {
+            if (value.type === 'tt:url' || value.type === 'tt:picture')
+                return `<${value.value}>`;
+            return `wd:${value.value}`;
+        }
+        if (value instanceof Ast.EnumValue) {
+            if (!(value.value in ENUM_VALUES))
+                throw new Error(`Unsupported enum value: ${value.value}`);
+            return `wd:${ENUM_VALUES[value.value]}`;
+        }
+        if (value instanceof Ast.StringValue)
+            return JSON.stringify(value.value);
+        if (value instanceof Ast.NumberValue)
+            return String(value.value);
+        if (value instanceof Ast.CurrencyValue)
+            return String(value.value);
+        if (value instanceof Ast.MeasureValue) {
+            const base = Units.transformToBaseUnit(value.value, value.unit);
+            const unit = Units.normalizeUnit(value.unit);
+            return String(unit in SI_CONVERSION ? SI_CONVERSION[unit](base) : base);
+        }
+        if (value instanceof Ast.BooleanValue)
+            return value.value ? 'true' : 'false';
+        if (value instanceof Ast.DateValue)
+            return this._convertDate(value);
+        if (value instanceof Ast.LocationValue && value.value instanceof Ast.AbsoluteLocation)
+            return `"Point(${value.value.lon} ${value.value.lat})"^^geo:wktLiteral`;
+        throw new Error(`Unsupported value: ${value.prettyprint()}`);
+    }
+
+    private _operator(operator : string) : string {
+        switch (operator) {
+        case '==':
+            return '=';
+        case '>=':
+        case '<=':
+        case '>':
+        case '<':
+            return operator;
+        default:
+            throw new Error(`Unsupported operator: ${operator}`);
+        }
+    }
+
+    /**
+     * Convert a comparison between a property of a subject and a value
+     * @param subject the subject variable (or entity) in SPARQL
+     * @param property the name of the property
+     * @param operator the ThingTalk operator
+     * @param value the ThingTalk value
+     * @param statementOf the name of the qualified property if the subject is a statement
+     */
+    private _convertComparison(subject : string,
+                               property : string,
+                               operator : string,
+                               value : Ast.Value,
+                               statementOf ?: string) : string {
+        if (property === 'id' && !statementOf) {
+            if (operator === '=~') {
+                const label = this._newVariable();
+                return `${subject} rdfs:label ${label} . FILTER(LANG(${label}) = "en" && CONTAINS(LCASE(${label}), ${JSON.stringify((value as Ast.StringValue).value.toLowerCase())})) .`;
+            }
+            if (operator === 'in_array' && value instanceof Ast.ArrayValue)
+                return `FILTER(${subject} IN (${value.value.map((v) => this._convertValue(v)).join(', ')})) .`;
+            return `FILTER(${subject} = ${this._convertValue(value)}) .`;
+        }
+
+        const predicate = this._predicate(property, statementOf);
+        if (value instanceof Ast.Value.Null) {
+            if (operator !== '==')
+                throw new Error(`Unsupported operator on null: ${operator}`);
+            return `FILTER NOT EXISTS { ${subject} ${predicate} ${this._newVariable()} . } .`;
+        }
+        if (value instanceof Ast.EntityValue || value instanceof Ast.EnumValue) {
+            if (operator !== '==' && operator !== 'contains')
+                throw new Error(`Unsupported operator on entity: ${operator}`);
+            return `${subject} ${predicate} ${this._convertValue(value)} .`;
+        }
+
+        const variable = this._newVariable();
+        if (value instanceof Ast.StringValue) {
+            const type = elemType(this._getPropertyType(property, statementOf));
+            let triples = `${subject} ${predicate} ${variable} .`;
+            let target = `STR(${variable})`;
+            // string filters on entity properties compare against the labels of the entities
+            if (type instanceof Type.Entity) {
+                const label = this._newVariable();
+                triples += ` ${variable} rdfs:label ${label} . FILTER(LANG(${label}) = "en") .`;
+                target = label;
+            }
+            if (operator === '=~' || operator === 'contains~')
+                return `${triples} FILTER(CONTAINS(LCASE(${target}), ${JSON.stringify(value.value.toLowerCase())})) .`;
+            if (operator === '==' || operator === 'contains')
+                return `${triples} FILTER(${target} = ${JSON.stringify(value.value)}) .`;
+            throw new Error(`Unsupported operator on string: ${operator}`);
+        }
+        if (value instanceof Ast.DateValue && value.value instanceof Ast.DatePiece && operator === '==') {
+            const piece = value.value;
+            const constraints = [];
+            if (piece.year !== null)
+                constraints.push(`YEAR(${variable}) = ${piece.year}`);
+            if (piece.month !== null)
+                constraints.push(`MONTH(${variable}) = ${piece.month}`);
+            if (piece.day !== null)
+                constraints.push(`DAY(${variable}) = ${piece.day}`);
+            return `${subject} ${predicate} ${variable} . FILTER(${constraints.join(' && ')}) .`;
+        }
+        return `${subject} ${predicate} ${variable} . FILTER(${variable} ${this._operator(operator)} ${this._convertValue(value)}) .`;
+    }
+
+    /**
+     * Convert a filter on a (qualified) statement of a property
+     * @param subject the subject variable (or entity) in SPARQL
+     * @param value a filter value in ThingTalk
+     * @returns the statement variable and the triples
+     */
+    private _convertStatement(subject : string, value : Ast.FilterValue) : [string, string] {
+        if (!(value.value instanceof Ast.VarRefValue))
+            throw new Error(`Unsupported filter value: ${value.prettyprint()}`);
+        const property = value.value.name;
+        const statement = this._newVariable();
+        const triples = [
+            `${subject} p:${this._getPropertyId(property)} ${statement} .`,
+            this._convertFilter(statement, value.filter, property)
+        ];
+        return [statement, triples.join(' ')];
+    }
+
+    /**
+     * Convert a computed comparison, i.e., count of a property, or qualified properties
+     * @param subject the subject variable (or entity) in SPARQL
+     * @param filter a compute boolean expression
+     */
+    private _convertComputeFilter(subject : string, filter : Ast.ComputeBooleanExpression) : string {
+        const lhs = filter.lhs;
+        if (lhs instanceof Ast.VarRefValue)
+            return this._convertComparison(subject, lhs.name, filter.operator, filter.rhs);
+        if (lhs instanceof Ast.ComputationValue && lhs.op === 'count' && lhs.operands.length === 1) {
+            const operand = lhs.operands[0];
+            if (!(operand instanceof Ast.VarRefValue))
+                throw new Error(`Unsupported count operand: ${operand.prettyprint()}`);
+            const predicate = this._predicate(operand.name);
+            if (filter.operator === '==' && filter.rhs instanceof Ast.NumberValue && filter.rhs.value === 0)
+                return `FILTER NOT EXISTS { ${subject} ${predicate} ${this._newVariable()} . } .`;
+            const variable = this._newVariable();
+            const count = this._newVariable();
+            return `{ SELECT ${subject} (COUNT(DISTINCT ${variable}) AS ${count}) WHERE { ${subject} ${predicate} ${variable} . } GROUP BY ${subject} } ` +
+                `FILTER(${count} ${this._operator(filter.operator)} ${this._convertValue(filter.rhs)}) .`;
+        }
+        if (lhs instanceof Ast.ComputationValue && lhs.op === 'distance' && lhs.operands.length === 2) {
+            const [operand, location] = lhs.operands;
+            if (!(operand instanceof Ast.VarRefValue) || !(filter.rhs instanceof Ast.MeasureValue))
+                throw new Error(`Unsupported distance filter: ${filter.prettyprint()}`);
+            const [variable, binding] = this._bindProperty(subject, operand.name);
+            // geof:distance returns the distance in kilometers
+            const distance = Units.transformToBaseUnit(filter.rhs.value, filter.rhs.unit) / 1000;
+            return `${binding} FILTER(geof:distance(${variable}, ${this._convertValue(location)}) ${this._operator(filter.operator)} ${distance}) .`;
+        }
+        if (lhs instanceof Ast.FilterValue && lhs.value instanceof Ast.VarRefValue) {
+            const [statement, triples] = this._convertStatement(subject, lhs);
+            return `${triples} ${this._convertComparison(statement, 'value', filter.operator, filter.rhs, lhs.value.name)}`;
+        }
+        throw new Error(`Unsupported compute filter: ${filter.prettyprint()}`);
+    }
+
+    /**
+     * Convert a filter with a subquery
+     * @param subject the subject variable (or entity) in SPARQL
+     * @param filter a comparison subquery boolean expression
+     */
+    private _convertSubqueryFilter(subject : string, filter : Ast.ComparisonSubqueryBooleanExpression) : string {
+        if (!(filter.lhs instanceof Ast.VarRefValue))
+            throw new Error(`Unsupported subquery on lhs: ${filter.lhs.prettyprint()}`);
+        const subquery = filter.rhs;
+        if (!(subquery instanceof Ast.ProjectionExpression) || subquery.args.length !== 1)
+            throw new Error(`Unsupported subquery: ${subquery.prettyprint()}`);
+        const subquerySubject = this._newVariable();
+        const triples = [this._convertTable(subquerySubject, subquery.expression)];
+        const [rhs, binding] = this._bindProperty(subquerySubject, subquery.args[0]);
+        triples.push(binding);
+
+        const property = filter.lhs.name;
+        if (['==', 'contains', 'in_array'].includes(filter.operator)) {
+            // equality: the subquery and the main query share the same variable
+            if (property === 'id')
+                triples.push(`FILTER(${subject} = ${rhs}) .`);
+            else
+                triples.push(`${subject} ${this._predicate(property)} ${rhs} .`);
+        } else {
+            const [lhs, binding] = this._bindProperty(subject, property);
+            triples.push(binding, `FILTER(${lhs} ${this._operator(filter.operator)} ${rhs}) .`);
+        }
+        return triples.filter(Boolean).join(' ');
+    }
+
+    /**
+     * Convert a ThingTalk filter into SPARQL graph patterns
+     * @param subject the subject variable (or entity) in SPARQL
+     * @param filter a ThingTalk boolean expression
+     * @param statementOf the name of the qualified property if the subject is a statement
+     */
+    private _convertFilter(subject : string, filter : Ast.BooleanExpression, statementOf ?: string) : string {
+        if (filter instanceof Ast.TrueBooleanExpression || filter instanceof Ast.DontCareBooleanExpression)
+            return '';
+        if (filter instanceof Ast.AndBooleanExpression)
+            return filter.operands.map((operand) => this._convertFilter(subject, operand, statementOf)).join(' ');
+        if (filter instanceof Ast.OrBooleanExpression)
+            return filter.operands.map((operand) => `{ ${this._convertFilter(subject, operand, statementOf)} }`).join(' UNION ');
+        if (filter instanceof Ast.NotBooleanExpression) {
+            const expr = filter.expr;
+            // not null: simply require the property to exist
+            if (expr instanceof Ast.AtomBooleanExpression && expr.value instanceof Ast.Value.Null)
+                return `${subject} ${this._predicate(expr.name, statementOf)} ${this._newVariable()} .`;
+            return `FILTER NOT EXISTS { ${this._convertFilter(subject, expr, statementOf)} } .`;
+        }
+        if (filter instanceof Ast.AtomBooleanExpression)
+            return this._convertComparison(subject, filter.name, filter.operator, filter.value, statementOf);
+        if (filter instanceof Ast.PropertyPathBooleanExpression) {
+            const path = this._propertyPath(filter.path);
+            if (filter.value instanceof Ast.Value.Null)
+                return `FILTER NOT EXISTS { ${subject} ${path} ${this._newVariable()} . } .`;
+            if (filter.value instanceof Ast.EntityValue)
+                return `${subject} ${path} ${this._convertValue(filter.value)} .`;
+            const variable = this._newVariable();
+            return `${subject} ${path} ${variable} . FILTER(${variable} ${this._operator(filter.operator)} ${this._convertValue(filter.value)}) .`;
+        }
+        if (filter instanceof Ast.ComputeBooleanExpression)
+            return this._convertComputeFilter(subject, filter);
+        if (filter instanceof Ast.ComparisonSubqueryBooleanExpression)
+            return this._convertSubqueryFilter(subject, filter);
+        throw new Error(`Unsupported filter: ${filter.prettyprint()}`);
+    }
+
+    /**
+     * Convert a table (a function invocation with optional filters)
+     * @param subject the subject variable in SPARQL
+     * @param expression a ThingTalk invocation or filter expression
+     */
+    private _convertTable(subject : string, expression : Ast.Expression) : string {
+        if (expression instanceof Ast.InvocationExpression) {
+            const domain = this._schema.getTableId(expression.invocation.channel);
+            if (!domain)
+                throw new Error(`Failed to find domain ${expression.invocation.channel} in schema`);
+            if (domain === ENTITY_DOMAIN)
+                return '';
+            return `${subject} wdt:P31 wd:${domain} .`;
+        }
+        if (expression instanceof Ast.FilterExpression) {
+            const triples = [this._convertTable(subject, expression.expression)];
+            const operands = expression.filter instanceof Ast.AndBooleanExpression ? expression.filter.operands : [expression.filter];
+            for (const operand of operands) {
+                // bind the subject directly for top-level id filters
+                if (operand instanceof Ast.AtomBooleanExpression && operand.name === 'id' &&
+                    operand.operator === '==' && operand.value instanceof Ast.EntityValue)
+                    triples.unshift(`VALUES ${subject} { ${this._convertValue(operand.value)} }`);
+                else
+                    triples.push(this._convertFilter(subject, operand));
+            }
+            return triples.filter(Boolean).join(' ');
+        }
+        throw new Error(`Unsupported table expression: ${expression.prettyprint()}`);
+    }
+
+    /**
+     * Convert a projection into a SPARQL variable
+     * @param subject the subject variable in SPARQL
+     * @param projection the projected property, property path or qualified value
+     * @returns the variable and the triples
+     */
+    private _convertProjection(subject : string, projection : string|Ast.PropertyPathSequence|Ast.Value) : [string, string] {
+        if (typeof projection === 'string')
+            return this._bindProperty(subject, projection);
+        if (Array.isArray(projection)) {
+            const variable = this._newVariable();
+            return [variable, `${subject} ${this._propertyPath(projection)} ${variable} .`];
+        }
+        if (projection instanceof Ast.FilterValue && projection.value instanceof Ast.VarRefValue) {
+            const [statement, triples] = this._convertStatement(subject, projection);
+            const variable = this._newVariable();
+            return [variable, `${triples} ${statement} ps:${this._getPropertyId(projection.value.name)} ${variable} .`];
+        }
+        if (projection instanceof Ast.ArrayFieldValue && projection.value instanceof Ast.FilterValue &&
+            projection.value.value instanceof Ast.VarRefValue) {
+            const property = projection.value.value.name;
+            const [statement, triples] = this._convertStatement(subject, projection.value);
+            const variable = this._newVariable();
+            return [variable, `${triples} ${statement} ${this._predicate(projection.field, property)} ${variable} .`];
+        }
+        throw new Error(`Unsupported projection: ${projection.prettyprint()}`);
+    }
+
+    /**
+     * Walk through the query expression, and record the operations applied on
+     * the table (projection, aggregation, sorting, indexing)
+     * @returns the innermost table expression
+     */
+    private _parseQuery(subject : string, expression : Ast.Expression, state : QueryState, triples : string[]) : Ast.Expression {
+        while (!(expression instanceof Ast.InvocationExpression || expression instanceof Ast.FilterExpression)) {
+            if (expression instanceof Ast.BooleanQuestionExpression) {
+                state.verification = expression.booleanExpression;
+                expression = expression.expression;
+            } else if (expression instanceof Ast.AggregationExpression) {
+                const [variable, binding] = expression.field === '*' ? [subject, ''] : this._bindProperty(subject, expression.field);
+                triples.push(binding);
+                state.aggregation = { op: expression.operator, variable };
+                expression = expression.expression;
+            } else if (expression instanceof Ast.ProjectionExpression) {
+                for (const arg of expression.args) {
+                    const [variable, binding] = this._convertProjection(subject, arg);
+                    triples.push(binding);
+                    state.projections.push(variable);
+                }
+                expression = expression.expression;
+            } else if (expression instanceof Ast.ProjectionExpression2) {
+                for (const projection of expression.projections) {
+                    const [variable, binding] = this._convertProjection(subject, projection.value);
+                    triples.push(binding);
+                    state.projections.push(variable);
+                }
+                expression = expression.expression;
+            } else if (expression instanceof Ast.SortExpression) {
+                if (!(expression.value instanceof Ast.VarRefValue))
+                    throw new Error(`Unsupported sort value: ${expression.value.prettyprint()}`);
+                const [variable, binding] = this._bindProperty(subject, expression.value.name);
+                triples.push(binding);
+                // the outermost sort is the primary sort key
+                state.orderings.push({ variable, direction: expression.direction });
+                expression = expression.expression;
+            } else if (expression instanceof Ast.IndexExpression) {
+                if (expression.indices.length !== 1 || !(expression.indices[0] instanceof Ast.NumberValue) || expression.indices[0].value < 1)
+                    throw new Error(`Unsupported index: ${expression.prettyprint()}`);
+                state.limit = 1;
+                state.offset = expression.indices[0].value - 1;
+                expression = expression.expression;
+            } else if (expression instanceof Ast.SliceExpression) {
+                if (!(expression.base instanceof Ast.NumberValue) || !(expression.limit instanceof Ast.NumberValue))
+                    throw new Error(`Unsupported slice: ${expression.prettyprint()}`);
+                state.limit = expression.limit.value;
+                state.offset = expression.base.value - 1;
+                expression = expression.expression;
+            } else {
+                throw new Error(`Unsupported expression: ${expression.prettyprint()}`);
+            }
+        }
+        return expression;
+    }
+
+    private _modifiers(state : QueryState) : string {
+        const modifiers = [];
+        if (state.orderings.length > 0) {
+            const orderings = state.orderings.map((o) => o.direction === 'desc' ? `DESC(${o.variable})` : `ASC(${o.variable})`);
+            modifiers.push(`ORDER BY ${orderings.join(' ')}`);
+        }
+        if (state.limit)
+            modifiers.push(`LIMIT ${state.limit}`);
+        if (state.offset)
+            modifiers.push(`OFFSET ${state.offset}`);
+        return modifiers.join(' ');
+    }
+
+    private _convertExpression(expression : Ast.Expression) : string {
+        const subject = this._newVariable();
+        const state : QueryState = { projections: [], orderings: [] };
+        const triples : string[] = [];
+        const table = this._parseQuery(subject, expression, state, triples);
+        triples.unshift(this._convertTable(subject, table));
+        const where = triples.filter(Boolean).join(' ');
+
+        if (state.verification) {
+            const verification = this._convertFilter(subject, state.verification);
+            // sorting and indexing applies before the verification, use a sub-select
+            if (state.orderings.length > 0 || state.limit)
+                return `ASK WHERE { { SELECT DISTINCT ${subject} WHERE { ${where} } ${this._modifiers(state)} } ${verification} }`;
+            return `ASK WHERE { ${where} ${verification} }`;
+        }
+
+        let variables;
+        if (state.aggregation) {
+            const op = state.aggregation.op;
+            const distinct = op === 'count' ? 'DISTINCT ' : '';
+            variables = `(${op.toUpperCase()}(${distinct}${state.aggregation.variable}) AS ?${op})`;
+        } else {
+            variables = state.projections.length > 0 ? state.projections.join(' ') : subject;
+        }
+        const modifiers = this._modifiers(state);
+        return `SELECT DISTINCT ${variables} WHERE { ${where} }` + (modifiers ? ` ${modifiers}` : '');
+    }
+
+    /**
+     * Convert a ThingTalk program into SPARQL
+     * @param program a ThingTalk program over the Wikidata class
+     * @returns a SPARQL query
+     */
+    async convert(program : Ast.Program) : Promise<string> {
+        this._init();
+        if (program.statements.length !== 1)
+            throw new Error('Unsupported: program with multiple statements');
+        const statement = program.statements[0];
+        if (!(statement instanceof Ast.ExpressionStatement))
+            throw new Error(`Unsupported statement: ${statement.prettyprint()}`);
+        let expression : Ast.Expression = statement.expression;
+        if (expression instanceof Ast.ChainExpression) {
+            if (expression.expressions.length !== 1)
+                throw new Error('Unsupported: chain expression');
+            expression = expression.expressions[0];
+        }
+        return this._convertExpression(expression);
+    }
+}
@@ -6,10 +6,12 @@ import { Ast, Type } from 'thingtalk';
 import { I18n, genBaseCanonical } from 'genie-toolkit';
 import { Parser, SparqlParser, AskQuery, IriTerm, VariableTerm } from 'sparqljs';
 import { extractProperties, extractTriples } from './utils/sparqljs';
-import { Example, preprocessQALD } from './utils/qald';
+import { Example, DatasetName, DATASETS, preprocessQALD } from './utils/qald';
 import { cleanName, waitFinish } from './utils/misc';
 import { idArgument, elemType, instanceOfArgument } from './utils/thingtalk';
-import WikidataUtils, { PROPERTY_QUALIFIER_PREFIX } from './utils/wikidata';
+import WikidataUtils, { PROPERTY_QUALIFIER_PREFIX, CacheMissError, reportCacheMisses } from './utils/wikidata';
+import { KnowledgeBase } from './utils/knowledge-base';
+import WikidataDumpUtils from './utils/wikidata-dump';
 import { PROPERTY_PREFIX, ENTITY_PREFIX, TP_DEVICE_NAME } from './utils/wikidata';
 
 interface Entity {
@@ -26,19 +28,21 @@ interface PropertyValues {
 }
 
 interface ManifestGeneratorOptions {
-    experiment : 'qald7'|'qald9',
+    experiment : DatasetName,
     type_system : 'flat' | 'hierarchical'
     cache : string,
     output : fs.WriteStream,
     exclude_non_entity_properties : boolean,
     use_wikidata_alt_labels : boolean,
-    bootleg_db : string
+    bootleg_db : string,
+    sparql_endpoint ?: string,
+    kb ?: KnowledgeBase
 }
 
-class ManifestGenerator {
-    private _experiment : 'qald7'|'qald9';
+export default class ManifestGenerator {
+    private _experiment : DatasetName;
     private _typeSystem : 'flat' | 'hierarchical';
-    private _wikidata : WikidataUtils;
+    private _wikidata : KnowledgeBase;
     private _parser : SparqlParser;
     private _tokenizer : I18n.BaseTokenizer;
     private _examples : Example[];
@@ -71,7 +75,7 @@ class ManifestGenerator {
     constructor(options : ManifestGeneratorOptions) {
         this._experiment = options.experiment;
         this._typeSystem = options.type_system;
-        this._wikidata = new WikidataUtils(options.cache, options.bootleg_db);
+        this._wikidata = options.kb ?? new WikidataUtils(options.cache, options.bootleg_db, { endpoint: options.sparql_endpoint });
         this._parser = new Parser();
         this._tokenizer = new I18n.LanguagePack('en-US').getTokenizer();
         this._examples = preprocessQALD(options.experiment);
@@ -183,8 +187,8 @@ class ManifestGenerator {
             }
             return Type.Number;
         }
-        // if (wikibaseType === 'GlobeCoordinate')
-        //    return Type.Location;
+        if (wikibaseType === 'GlobeCoordinate')
+            return Type.Location;
         if (wikibaseType === 'WikibaseItem')
             return new Type.Array(new Type.Entity(`${TP_DEVICE_NAME}:p_${propertyName}`));
         
@@ -304,68 +308,72 @@ class ManifestGenerator {
     private async _processDomainProperties(domain : string, entityType : string) {
         const args = [idArgument(cleanName(entityType)), instanceOfArgument(entityType)];
         const propertyValues = await this._wikidata.getDomainPropertiesAndValues(domain, this._includeNonEntityProperties);
-        const propertyLabels = await this._wikidata.getLabelsByBatch(...Object.keys(propertyValues));
+        const propertyLabels = await this._wikidata.getLabelsByBatch(Object.keys(propertyValues));
         const entityValues = Object.values(propertyValues).flat().filter(this._wikidata.isEntity);
-        const valueLabels = await this._wikidata.getLabelsByBatch(...entityValues);
+        const valueLabels = await this._wikidata.getLabelsByBatch(entityValues);
         for (const [property, values] of Object.entries(propertyValues)) {
-            const label = propertyLabels[property] ?? property;
-            if (label.startsWith('category for') || label.startsWith('category of'))
-                continue;
-            const pname = cleanName(label);
-            const ptype = await this._getPropertyType(property, pname);
-            if (!ptype) 
-                continue;
-            const argumentDef = new Ast.ArgumentDef(
-                null,
-                Ast.ArgDirection.OUT,
-                pname, 
-                ptype,
-                { 
-                    nl: { canonical: await this._generatePropertyCanonicals(property, label, ptype) }, 
-                    impl: { wikidata_id: new Ast.Value.String(property) } 
-                }
-            );
-            args.push(argumentDef);
-            if (!(property in this._properties))
-                this._properties[property] = argumentDef;
-            // TODO: separate property values by domain
-            if (values.length === 0)
-                continue;
-            const vtype = elemType(ptype);
-            if (vtype instanceof Type.Entity) {
-                if (!(pname in this._propertyValues.entities))
-                    this._propertyValues.entities[pname] = {};
-                const valueTypes : Set<string> = new Set();
-                for (const value of values) {
-                    if (value in this._propertyValues.entities[pname])
-                        continue;
-                    if (!this._wikidata.isEntity(value))
-                        continue;
-                    this._propertyValues.entities[pname][value] = valueLabels[value] ?? value;
-
-                    if (this._typeSystem === 'flat')
-                        continue; 
-                    const type = await this._getEntityType(value);
-                    if (type) {
-                        const typeLabel = await this._wikidata.getLabel(type);
-                        if (typeLabel) {
-                            const parentClasses = typeLabel === 'entity' ? [] : [`${TP_DEVICE_NAME}:entity`];
-                            valueTypes.add(`${TP_DEVICE_NAME}:${cleanName(typeLabel)}`);
-                            this._addEntity(cleanName(typeLabel), typeLabel, parentClasses);
+            // in offline mode, a property missing from the cache is skipped, and reported at the end
+            try {
+                const label = propertyLabels[property] ?? property;
+                if (label.startsWith('category for') || label.startsWith('category of'))
+                    continue;
+                const pname = cleanName(label);
+                const ptype = await this._getPropertyType(property, pname);
+                if (!ptype) 
+                    continue;
+                const argumentDef = new Ast.ArgumentDef(
+                    null,
+                    Ast.ArgDirection.OUT,
+                    pname, 
+                    ptype,
+                    { 
+                        nl: { canonical: await this._generatePropertyCanonicals(property, label, ptype) }, 
+                        impl: { wikidata_id: new Ast.Value.String(property) } 
+                    }
+                );
+                // TODO: separate property values by domain
+                const vtype = elemType(ptype);
+                if (vtype instanceof Type.Entity && values.length > 0) {
+                    if (!(pname in this._propertyValues.entities))
+                        this._propertyValues.entities[pname] = {};
+                    const valueTypes : Set<string> = new Set();
+                    for (const value of values) {
+                        if (value in this._propertyValues.entities[pname])
+                            continue;
+                        if (!this._wikidata.isEntity(value))
+                            continue;
+                        this._propertyValues.entities[pname][value] = valueLabels[value] ?? value;
+
+                        if (this._typeSystem === 'flat')
+                            continue; 
+                        const type = await this._getEntityType(value);
+                        if (type) {
+                            const typeLabel = await this._wikidata.getLabel(type);
+                            if (typeLabel) {
+                                const parentClasses = typeLabel === 'entity' ? [] : [`${TP_DEVICE_NAME}:entity`];
+                                valueTypes.add(`${TP_DEVICE_NAME}:${cleanName(typeLabel)}`);
+                                this._addEntity(cleanName(typeLabel), typeLabel, parentClasses);
+                            }
                         }
                     }
+                    this._addEntity(
+                        `p_${pname}`, 
+                        label, 
+                        this._typeSystem === 'flat' ? [`${TP_DEVICE_NAME}:entity`] : [...valueTypes]
+                    );
                 }
-                this._addEntity(
-                    `p_${pname}`, 
-                    label, 
-                    this._typeSystem === 'flat' ? [`${TP_DEVICE_NAME}:entity`] : [...valueTypes]
-                );
-            }
-            if (vtype === Type.String) {
-                if (!(pname in this._propertyValues.strings))
-                    this._propertyValues.strings[pname] = [];
-                for (const value of values)
-                    this._propertyValues.strings[pname].push(value);
+                if (vtype === Type.String && values.length > 0) {
+                    if (!(pname in this._propertyValues.strings))
+                        this._propertyValues.strings[pname] = [];
+                    for (const value of values)
+                        this._propertyValues.strings[pname].push(value);
+                }
+                args.push(argumentDef);
+                if (!(property in this._properties))
+                    this._properties[property] = argumentDef;
+            } catch(e) {
+                if (!(e instanceof CacheMissError))
+                    throw e;
             }
         }
         return args;
@@ -382,7 +390,7 @@ class ManifestGenerator {
         const fname = cleanName(domainLabel);
         this._addEntity(fname, domainLabel, fname === 'entity' ? [] : [`${TP_DEVICE_NAME}:entity`]);
         const samples = await this._wikidata.getEntitiesByDomain(domain); 
-        const sampleLabels = await this._wikidata.getLabelsByBatch(...samples);
+        const sampleLabels = await this._wikidata.getLabelsByBatch(samples);
         this._domainSamples[fname] = sampleLabels;
 
         if (fname === 'entity') // skip the rest for "entity" domain
@@ -433,7 +441,15 @@ class ManifestGenerator {
         // queries
         const queries : Record<string, Ast.FunctionDef> = {};
         for (const domain in this._domainLabels) {
-            const [fname, functionDef] = await this._processDomain(domain);
+            let fname, functionDef;
+            // in offline mode, a domain missing from the cache is skipped, and reported at the end
+            try {
+                [fname, functionDef] = await this._processDomain(domain);
+            } catch(e) {
+                if (!(e instanceof CacheMissError))
+                    throw e;
+                continue;
+            }
             if (functionDef) {
                 queries[fname] = functionDef;
                 countTotalProperties += functionDef.args.length;
@@ -501,12 +517,22 @@ class ManifestGenerator {
         // write entity dataset for instanceof 
         const domainEntities : Record<string, any> = {};
         for (const [domain, values] of Object.entries(this._wikidata.subdomains)) {
+            // skipped in offline mode
+            if (!(domain in this._domainLabels))
+                continue;
             const fname = cleanName(this._domainLabels[domain]);
             index.write(`entity\ten-US\t${TP_DEVICE_NAME}:${fname}_subdomain\tparameter-datasets/${fname}.json\n`);
             const paramDataset = fs.createWriteStream(dir + `/parameter-datasets/${fname}_subdomain.json`);
             const data : Record<string, any> = { result: "ok", data: [] };
             for (const value of values) {
-                const display = await this._wikidata.getLabel(value);
+                let display;
+                try {
+                    display = await this._wikidata.getLabel(value);
+                } catch(e) {
+                    if (!(e instanceof CacheMissError))
+                        throw e;
+                    continue;
+                }
                 if (display) {
                     const tokenized = this._tokenizer.tokenize(display);
                     const name = tokenized.rawTokens.join(' ');
@@ -574,14 +600,20 @@ class ManifestGenerator {
         await this._wikidata.loadAllDomains();
         this._subdomains = this._wikidata.subdomains;
         for (const domain in this._subdomains) {
-            const domainLabel = await this._wikidata.getLabel(domain);
-            if (!domainLabel)
-                throw new Error('Failed to find label for domain: ' + domain);
-            this._domainLabels[domain] = domainLabel;
-            for (const subdomain of this._subdomains[domain]) {
-                const subdomainLabel = await this._wikidata.getLabel(subdomain);
-                if (subdomainLabel)
-                    this._addEntity(cleanName(subdomainLabel), subdomainLabel, [`${TP_DEVICE_NAME}:entity`]);
+            // in offline mode, a domain missing from the cache is skipped, and reported at the end
+            try {
+                const domainLabel = await this._wikidata.getLabel(domain);
+                if (!domainLabel)
+                    throw new Error('Failed to find label for domain: ' + domain);
+                this._domainLabels[domain] = domainLabel;
+                for (const subdomain of this._subdomains[domain]) {
+                    const subdomainLabel = await this._wikidata.getLabel(subdomain);
+                    if (subdomainLabel)
+                        this._addEntity(cleanName(subdomainLabel), subdomainLabel, [`${TP_DEVICE_NAME}:entity`]);
+                }
+            } catch(e) {
+                if (!(e instanceof CacheMissError))
+                    throw e;
             }
         }
     }
@@ -620,6 +652,7 @@ async function main() {
     });
     parser.add_argument('--experiment', {
         required: false,
+        choices: Object.keys(DATASETS),
         default: 'qald7'
     });
     parser.add_argument('--type-system', {
@@ -647,9 +680,45 @@ async function main() {
         required: false,
         default: 'bootleg.sqlite'
     });
+    parser.add_argument('--sparql-endpoint', {
+        required: false,
+        help: `The SPARQL endpoint to query (defaults to the public Wikidata endpoint)`
+    });
+    parser.add_argument('--wikidata-dump', {
+        required: false,
+        help: `Path to a sqlite database of a Wikidata dump, to run offline instead of querying Wikidata`
+    });
+    parser.add_argument('--schemaorg', {
+        required: false,
+        help: `Path to a local copy of the schema.org JSON-LD definitions, used with --wikidata-dump`
+    });
+    parser.add_argument('--cache-keys', {
+        required: false,
+        help: 'Path to a JSON file to write the keys of the cache entries used, to export them with wikidata-cache'
+    });
+    parser.add_argument('--offline', {
+        action: 'store_true',
+        help: 'Never query Wikidata, only use the cache; requests missing from the cache are listed at the end',
+        default: false
+    });
     const args = parser.parse_args();
+    if (args.wikidata_dump)
+        args.kb = new WikidataDumpUtils(args.wikidata_dump, args.bootleg_db, { schemaorg: args.schemaorg });
+    else
+        args.kb = new WikidataUtils(args.cache, args.bootleg_db, { endpoint: args.sparql_endpoint, offline: args.offline });
     const generator = new ManifestGenerator(args);
-    generator.generate();
+    try {
+        await generator.generate();
+    } catch(e) {
+        // in offline mode, properties and domains missing from the cache are skipped, but
+        // the generation cannot continue without the list of domains
+        if (!(e instanceof CacheMissError))
+            throw e;
+    }
+    if (args.cache_keys)
+        fs.writeFileSync(args.cache_keys, JSON.stringify(args.kb.cacheKeys, null, 2));
+    reportCacheMisses(args.kb);
 }
 
-main();
+if (require.main === module)
+    main();
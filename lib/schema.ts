@@ -6,29 +6,38 @@ import { elemType } from './utils/thingtalk';
  */
 export class WikiSchema {
     private _tableMap : Record<string, string>;
+    private _tableIdMap : Record<string, string>;
     private _propertyMap : Record<string, string>;
+    private _propertyIdMap : Record<string, string>;
     private _propertyTypeMap : Record<string, Type>;
 
     constructor(schema : Ast.ClassDef) {
         this._tableMap = {};
+        this._tableIdMap = {};
         this._propertyMap = {};
+        this._propertyIdMap = {};
         this._propertyTypeMap = {};
         for (const [qname, query] of Object.entries(schema.queries)) {
             const qid = ((query.getImplementationAnnotation('wikidata_subject')) as any[])[0];
             this._tableMap[qid] = qname;
+            this._tableIdMap[qname] = qid;
             for (const arg of query.iterateArguments()) {
                 // skip id argument, and compound fields
                 if (arg.name === 'id' || arg.name.includes('.'))
                     continue;
                 const pid = arg.getImplementationAnnotation('wikidata_id') as string;
                 this._propertyMap[pid] = arg.name;
+                this._propertyIdMap[arg.name] = pid;
                 this._propertyTypeMap[arg.name] = arg.type;
 
                 // log type information for compound field, by concat property name and filed name
                 const type= elemType(arg.type, false);
                 if (type instanceof Type.Compound) {
-                    for (const field of Object.values(type.fields)) 
+                    for (const field of Object.values(type.fields)) {
                         this._propertyTypeMap[`${arg.name}.${field.name}`] = field.type;
+                        if (field.name !== 'value')
+                            this._propertyIdMap[`${arg.name}.${field.name}`] = field.getImplementationAnnotation('wikidata_id') as string;
+                    }
                 }
             }
         }
@@ -42,6 +51,14 @@ export class WikiSchema {
         return this._tableMap[qid];
     }
 
+    /**
+     * @param table the table name
+     * @returns the QID of the domain of the table
+     */
+    getTableId(table : string) : string {
+        return this._tableIdMap[table];
+    }
+
     /**
      * @param pid PID of a property
      * @returns the property name (cleaned label of the PID)
@@ -50,6 +67,14 @@ export class WikiSchema {
         return this._propertyMap[pid];
     }
 
+    /**
+     * @param property the name of the property, or `${property}.${qualifier}` for a qualifier
+     * @returns the PID of the property (or the qualifier)
+     */
+    getPropertyId(property : string) : string {
+        return this._propertyIdMap[property];
+    }
+
     /**
      * @param property the name of the property
      * @returns the entity type of the property 
@@ -0,0 +1,127 @@
+/**
+ * The knowledge base queried by the converter and the manifest generator.
+ *
+ * Entities, domains and properties are identified by their Wikidata ids (QIDs and PIDs),
+ * so any store of Wikidata (the public SPARQL endpoint, a local endpoint, a dump, or an
+ * in-memory fixture for tests) can be plugged in by implementing this interface.
+ */
+export interface KnowledgeBase {
+    /**
+     * The domains included in the manifest, and their subdomains
+     */
+    readonly subdomains : Record<string, string[]>;
+
+    /**
+     * Load all the domains to include in the manifest
+     * @param minimum_size the minimum number of entities for a domain to be included
+     */
+    loadAllDomains(minimum_size ?: number) : Promise<void>;
+
+    /**
+     * Obtain the values of property for a given entity
+     * @param entityId QID of an entity
+     * @param propertyId PID of a property
+     * @returns values of the property
+     */
+    getPropertyValue(entityId : string, propertyId : string) : Promise<string[]>;
+
+    /**
+     * Obtain the values of a globe coordinate property for a given entity
+     * @param entityId QID of an entity
+     * @param propertyId PID of a globe coordinate property
+     * @returns values of the property, as WKT literals, e.g., Point(2.35 48.85)
+     */
+    getCoordinates(entityId : string, propertyId : string) : Promise<string[]>;
+
+    /**
+     * Get the domain of a given entity
+     * @param entityId QID of an entity
+     * @param excludes a list of domains (QIDs) to exclude
+     * @returns the QID of the domain of the entity
+     */
+    getDomain(entityId : string, excludes ?: string[]) : Promise<string|null>;
+
+    /**
+     * Return one top-level domain included in the manifest given a list of domains
+     * @param qids a list of QIDs
+     * @param excludes a list of domains (QIDs) to exclude
+     * @returns the QID of the top-level domain
+     */
+    getTopLevelDomain(qids : string[], excludes ?: string[]) : Promise<string>;
+
+    /**
+     * Get the label of an entity or a property
+     * @param id QID or PID
+     * @param language the language code of the label (defaults to English)
+     * @returns the label, or null if it is not available
+     */
+    getLabel(id : string, language ?: string) : Promise<string|null>;
+
+    /**
+     * Get the alternative labels of an entity or a property
+     * @param id QID or PID
+     * @param language the language code of the labels (defaults to English)
+     * @returns an array of alternative labels
+     */
+    getAltLabels(id : string, language ?: string) : Promise<string[]>;
+
+    /**
+     * Get the demonyms of an entity
+     * @param id QID
+     * @param language the language code of the demonyms (defaults to English)
+     * @returns an array of demonyms
+     */
+    getDemonyms(id : string, language ?: string) : Promise<string[]>;
+
+    /**
+     * Get the labels of a list of entities or properties
+     * @param ids a list of QIDs or PIDs
+     * @param language the language code of the labels (defaults to English)
+     * @returns a map from id to label
+     */
+    getLabelsByBatch(ids : string[], language ?: string) : Promise<Record<string, string|null>>;
+
+    /**
+     * Get example entities of a domain
+     * @param domain QID of the domain
+     * @param limit the maximum number of entities to return
+     * @returns an array of QIDs
+     */
+    getEntitiesByDomain(domain : string, limit ?: number) : Promise<string[]>;
+
+    /**
+     * Get the properties and their values of the example entities of a domain
+     * @param domain QID of the domain
+     * @param includeNonEntityProperties include properties whose values are not entities
+     * @returns an object where key is property PID, values are the values of the property
+     */
+    getDomainPropertiesAndValues(domain : string, includeNonEntityProperties ?: boolean) : Promise<Record<string, any>>;
+
+    /**
+     * Get the common qualifiers of a property
+     * @param property PID
+     * @returns a list of qualifiers
+     */
+    getQualifiersByProperty(property : string) : Promise<string[]>;
+
+    /**
+     * Get the allowed units of a property
+     * @param propertyId PID
+     * @returns a list of the labels of the allowed units
+     */
+    getAllowedUnits(propertyId : string) : Promise<string[]>;
+
+    /**
+     * Get the wikibase type of a property
+     * @param propertyId PID
+     * @returns the wikibase type, e.g., WikibaseItem, or Unsupported
+     */
+    getPropertyType(propertyId : string) : Promise<string>;
+
+    /**
+     * guess if the thingtalk type of a value is entity
+     * @param value a string of value
+     * @returns if the value is a entity value
+     */
+    isEntity(value : string) : boolean;
+}
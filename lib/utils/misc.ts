@@ -1,7 +1,7 @@
 import stemmer from 'en-stemmer';
 import fs from 'fs';
 import JSONStream from 'JSONStream';
-import { removeStopwords } from 'stopword';
+import stopword from 'stopword';
 import { Syntax } from 'thingtalk';
 
 export function snakeCase(v : string) {
@@ -59,13 +59,15 @@ export function waitEnd(stream : NodeJS.ReadableStream) : Promise<void> {
     });
 }
 
-// similarity by word-level similarity
-export function similarity(s1 : string, s2 : string, algorithm : 'jaccard'|'f1' = 'f1') {
+// similarity by word-level similarity, words are stemmed in English only
+export function similarity(s1 : string, s2 : string, algorithm : 'jaccard'|'f1' = 'f1', language = 'en') {
     function clean(s : string) : string {
-        return stemmer(removeAccent(s));
+        s = removeAccent(s);
+        return language === 'en' ? stemmer(s) : s;
     }
-    const arr1 = removeStopwords(s1.toLowerCase().split(' ')).map(clean);
-    const arr2 = removeStopwords(s2.toLowerCase().split(' ')).map(clean);
+    const stopwords = stopword[language as stopword.LanguageCode] ?? [];
+    const arr1 = stopword.removeStopwords(s1.toLowerCase().split(' '), stopwords).map(clean);
+    const arr2 = stopword.removeStopwords(s2.toLowerCase().split(' '), stopwords).map(clean);
 
     if (arr1.length === 0 || arr2.length === 0)
         return 0;
@@ -83,6 +85,25 @@ export function similarity(s1 : string, s2 : string, algorithm : 'jaccard'|'f1'
     }
 }
 
+// similarity by character-level edit distance
+export function charSimilarity(s1 : string, s2 : string) {
+    s1 = removeAccent(s1.toLowerCase());
+    s2 = removeAccent(s2.toLowerCase());
+    if (s1.length === 0 || s2.length === 0)
+        return 0;
+
+    let previous = Array.from({ length: s2.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= s1.length; i ++) {
+        const current = [i];
+        for (let j = 1; j <= s2.length; j ++) {
+            const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+        }
+        previous = current;
+    }
+    return 1 - previous[s2.length] / Math.max(s1.length, s2.length);
+}
+
 // return most similar one by word-level similarity
 export function closest(s : string, arr : string[], algorithm : 'jaccard'|'f1' = 'f1', discard_threshold = 0) {
     let closest = null;
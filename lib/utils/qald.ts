@@ -1,6 +1,6 @@
 import fs from 'fs';
 import path from 'path';
-import { TP_DEVICE_NAME } from './wikidata';
+import { Ast, Syntax, SchemaRetriever } from 'thingtalk';
 
 export interface Example {
     id : string,
@@ -9,78 +9,128 @@ export interface Example {
 }
 
 /**
- * Preprocess one QALD example to extract only useful information for us
- * @param example An example in QALD
- * @returns A cleaned example object with id, utterance, and sparql
+ * Find the question in a given language, QALD-9-plus and QALD-10 have one entry 
+ * per language, in no particular order
+ * @param questions the list of questions in different languages
+ * @param language the language code
+ * @returns the question string, or null if the question is not available in the language 
  */
-export function preprocessExample(example : any) : Example {
-    return {
-        id: example.id,
-        utterance: example.question[0].string,
-        sparql: example.query.sparql
-    };
+function findQuestion(questions : Array<{ language : string, string : string }>, language : string) : string|null {
+    const question = questions.find((q) => q.language === language);
+    return question ? question.string : null;
 }
 
 /**
- * Preprocess all QALD train/test examples into a cleaned array
+ * Preprocess one example of QALD-9-plus or QALD-10
+ * @param example an example in the dataset
+ * @param language the language of the utterance
+ * @returns A cleaned example object, or null if the example has no utterance in the 
+ *          language or no SPARQL over Wikidata
+ */
+export function preprocessMultilingualExample(example : any, language : string) : Example|null {
+    const utterance = findQuestion(example.question, language);
+    if (!utterance || !example.query?.sparql)
+        return null;
+    return { id: String(example.id), utterance, sparql: example.query.sparql };
+}
+
+export type DatasetName = 'qald7'|'qald9-plus'|'qald10';
+
+export interface DatasetAdapter {
+    // the id of the dataset, used when the file does not specify one
+    id : string;
+    // the files of the dataset, relative to the data directory
+    files : string[];
+    /**
+     * Preprocess one example to extract only useful information for us
+     * @param example an example in the dataset
+     * @param language the language of the utterance
+     * @returns A cleaned example object with id, utterance, and sparql, or null if 
+     *          the example has no utterance in the language or no SPARQL over Wikidata
+     */
+    preprocess(example : any, language : string) : Example|null;
+}
+
+export const DATASETS : Record<DatasetName, DatasetAdapter> = {
+    // QALD-7 Wikidata: questions are in English only
+    'qald7': {
+        id: 'qald-7-wikidata',
+        files: ['qald7/train.json', 'qald7/test.json'],
+        preprocess(example : any, language : string) : Example|null {
+            const utterance = findQuestion(example.question, language);
+            if (!utterance)
+                return null;
+            return { id: String(example.id), utterance, sparql: example.query.sparql };
+        }
+    },
+    // QALD-9-plus and QALD-10 are not included in the repository, run `npm run download-qald`
+    // to download them into the data directory
+    // QALD-9-plus Wikidata: some DBpedia questions have no Wikidata equivalent, 
+    // and they come with an empty query
+    'qald9-plus': {
+        id: 'qald-9-plus-wikidata',
+        files: ['qald9-plus/train.json', 'qald9-plus/test.json'],
+        preprocess: preprocessMultilingualExample
+    },
+    // QALD-10: test set only, the training set is the one of QALD-9-plus; 
+    // queries use prefixes instead of full IRIs, which are expanded by the SPARQL parser
+    'qald10': {
+        id: 'qald-10',
+        files: ['qald9-plus/train.json', 'qald10/test.json'],
+        preprocess: preprocessMultilingualExample
+    }
+};
+
+/**
+ * Preprocess all train/test examples of a dataset into a cleaned array
+ * @param experiment the name of the dataset
+ * @param language the language of the utterances
  * @returns An array of examples
  */
-export function preprocessQALD(experiment : string) : Example[] {
-    const trainQuestions = JSON.parse(fs.readFileSync(path.join(__dirname, `../../../data/${experiment}/train.json`), 'utf-8'));
-    const testQuestions = JSON.parse(fs.readFileSync(path.join(__dirname, `../../../data/${experiment}/test.json`), 'utf-8'));
+export function preprocessQALD(experiment : DatasetName, language = 'en') : Example[] {
+    const adapter = DATASETS[experiment];
     const questions = [];
-    for (const example of trainQuestions.questions) 
-        questions.push(preprocessExample(example));
-    for (const example of testQuestions.questions) 
-        questions.push(preprocessExample(example));
+    for (const file of adapter.files) {
+        const filePath = path.join(__dirname, `../../../data/${file}`);
+        if (!fs.existsSync(filePath))
+            throw new Error(`Missing ${file} in the data directory, run \`npm run download-qald\` to download it`);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        for (const example of data.questions) {
+            const preprocessed = adapter.preprocess(example, language);
+            if (preprocessed)
+                questions.push(preprocessed);
+        }
+    }
     return questions;
 }
 
+export const DEFAULT_MANUAL_CONVERSION = path.join(__dirname, '../../../data/manual-conversions.json');
 
 /**
- * In some examples of QALD-7, an entity span is splitted into multiple keywords,
- * manually override them to recover 
+ * Load the manual conversions of the examples that the converter can't handle.
+ * The file maps the id of a dataset and the id of a question to a ThingTalk
+ * program (in tokenized syntax, with entity displays in the English question). Each program is typechecked
+ * against the manifest, so a broken override is caught at load time.
+ * @param file the path to the JSON file of manual conversions
+ * @param schemas the schema retriever of the manifest
+ * @returns the typechecked programs, by dataset id and question id
  */
-export const ENTITY_SPAN_OVERRIDE : Record<string, string> = {
-    "Q11631": "cosmonauts", // astronaut
-    "Q15180": "cosmonauts", // soviet union
-    "Q159": "cosmonauts", // russia
-    "Q5274359": "the first season of the HBO television series The Sopranos".toLowerCase(),
-    "Q4970706": "federal chancellors of germany",
-    "Q10800557": "actors",
-    "Q36": "polish",
-    "Q53696": "tree frog",
-    "Q10908" : "amphibian",
-    "Q183" : "german",
-    "Q4830453": "company",
-    "Q668": "indian",
-    "Q16": "canadians",
-    "Q33946": "czech"
-};
-
-
-export const MANUAL_CONVERSION_WITH_DISPLAY : Record<string, string> = {
-    // qald 7 test
-    // id: 8
-    "SELECT DISTINCT ?uri WHERE { ?uri <http://www.wikidata.org/prop/direct/P31> <http://www.wikidata.org/entity/Q6256>  . ?cave <http://www.wikidata.org/prop/direct/P31> <http://www.wikidata.org/entity/Q35509> . { ?cave <http://www.wikidata.org/prop/direct/P17> ?uri . }  UNION { ?cave <http://www.wikidata.org/prop/direct/P131>/<http://www.wikidata.org/prop/direct/P17> ?uri . } } GROUP BY ?uri HAVING (COUNT(DISTINCT ?cave) > 10)" : 
-    `[ country ] of count ( @${TP_DEVICE_NAME} . landform ( ) filter instance_of == " Q6256 " ^^${TP_DEVICE_NAME}:landform_subdomain ( " cave " ) ) by country filter count >= 10 ;`,
-    // id: 14
-    "ASK WHERE { { SELECT ?largest WHERE { ?largest <http://www.wikidata.org/prop/direct/P31> <http://www.wikidata.org/entity/Q515> . ?largest <http://www.wikidata.org/prop/direct/P17> <http://www.wikidata.org/entity/Q79> . ?largest <http://www.wikidata.org/prop/direct/P1082> ?population . } ORDER BY DESC(?population) LIMIT 1 } <http://www.wikidata.org/entity/Q79> <http://www.wikidata.org/prop/direct/P36> ?largest . }": 
-    `[ contains ( capital_of , " Q79 " ^^${TP_DEVICE_NAME}:country ( " egypts " ) ) ] of sort ( population desc of @${TP_DEVICE_NAME} . city ( ) filter contains ( country , " Q79 " ^^${TP_DEVICE_NAME}:country ( " egypts " ) ) ) ;`,
-    // id: 29
-    "SELECT DISTINCT ?date WHERE { <http://www.wikidata.org/entity/Q211> <http://www.wikidata.org/prop/P463> ?membership . ?membership <http://www.wikidata.org/prop/statement/P463> <http://www.wikidata.org/entity/Q458> . ?membership <http://www.wikidata.org/prop/qualifier/P580> ?date . }" : 
-    `[ start_time of ( member_of filter value == " Q458 " ^^${TP_DEVICE_NAME}:p_member_of ( " eu " ) ) ] of @${TP_DEVICE_NAME} . country ( ) filter id == " Q211 " ^^${TP_DEVICE_NAME}:country ( " latvia " ) ;`
-};
-
-export const MANUAL_CONVERSION_WITHOUT_DISPLAY : Record<string, string> = {
-    // qald 7 test
-    // id: 8
-    "SELECT DISTINCT ?uri WHERE { ?uri <http://www.wikidata.org/prop/direct/P31> <http://www.wikidata.org/entity/Q6256>  . ?cave <http://www.wikidata.org/prop/direct/P31> <http://www.wikidata.org/entity/Q35509> . { ?cave <http://www.wikidata.org/prop/direct/P17> ?uri . }  UNION { ?cave <http://www.wikidata.org/prop/direct/P131>/<http://www.wikidata.org/prop/direct/P17> ?uri . } } GROUP BY ?uri HAVING (COUNT(DISTINCT ?cave) > 10)" : 
-    `[ country ] of count ( @${TP_DEVICE_NAME} . landform ( ) filter instance_of == " Q6256 " ^^${TP_DEVICE_NAME}:landform_subdomain ) by country filter count >= 10 ;`,
-    // id: 14
-    "ASK WHERE { { SELECT ?largest WHERE { ?largest <http://www.wikidata.org/prop/direct/P31> <http://www.wikidata.org/entity/Q515> . ?largest <http://www.wikidata.org/prop/direct/P17> <http://www.wikidata.org/entity/Q79> . ?largest <http://www.wikidata.org/prop/direct/P1082> ?population . } ORDER BY DESC(?population) LIMIT 1 } <http://www.wikidata.org/entity/Q79> <http://www.wikidata.org/prop/direct/P36> ?largest . }": 
-    `[ contains ( capital_of , " Q79 " ^^${TP_DEVICE_NAME}:country ) ] of sort ( population desc of @${TP_DEVICE_NAME} . city ( ) filter contains ( country , " Q79 " ^^${TP_DEVICE_NAME}:country ) ) ;`,
-    // id: 29
-    "SELECT DISTINCT ?date WHERE { <http://www.wikidata.org/entity/Q211> <http://www.wikidata.org/prop/P463> ?membership . ?membership <http://www.wikidata.org/prop/statement/P463> <http://www.wikidata.org/entity/Q458> . ?membership <http://www.wikidata.org/prop/qualifier/P580> ?date . }" : 
-    `[ start_time of ( member_of filter value == " Q458 " ^^${TP_DEVICE_NAME}:p_member_of ) ] of @${TP_DEVICE_NAME} . country ( ) filter id == " Q211 " ^^${TP_DEVICE_NAME}:country ;`
-};
\ No newline at end of file
+export async function loadManualConversions(file : string, schemas : SchemaRetriever) : Promise<Record<string, Record<string, Ast.Program>>> {
+    const conversions : Record<string, Record<string, string>> = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const programs : Record<string, Record<string, Ast.Program>> = {};
+    for (const [dataset, examples] of Object.entries(conversions)) {
+        programs[dataset] = {};
+        for (const [id, code] of Object.entries(examples)) {
+            try {
+                const program = Syntax.parse(code, Syntax.SyntaxType.Tokenized, {}, {
+                    locale: 'en',
+                    timezone: undefined
+                });
+                programs[dataset][id] = await program.typecheck(schemas) as Ast.Program;
+            } catch(e) {
+                throw new Error(`Invalid manual conversion for example ${id} in ${dataset}: ${(e as Error).message}`);
+            }
+        }
+    }
+    return programs;
+}
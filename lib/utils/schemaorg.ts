@@ -1,4 +1,5 @@
 import * as Tp from 'thingpedia';
+import * as fs from 'fs';
 export const SCHEMAORG_PREFIX = 'https://schema.org/';
 
 const SCHEMA_JSON = 'https://raw.githubusercontent.com/schemaorg/schemaorg/main/data/releases/14.0/schemaorg-current-https.jsonld';
@@ -57,13 +58,19 @@ export class SchemaorgType {
 
 export default class SchemaorgUtils {
     private _types : Record<string, SchemaorgType>;
+    private _path ?: string;
 
-    constructor() {
+    /**
+     * @param path a local copy of the schema.org JSON-LD definitions, 
+     *             downloaded from schema.org if not provided
+     */
+    constructor(path ?: string) {
         this._types = {};
+        this._path = path;
     }
 
     async _init() {
-        const raw = await Tp.Helpers.Http.get(SCHEMA_JSON, { accept: 'application/json' });
+        const raw = this._path ? fs.readFileSync(this._path, 'utf-8') : await Tp.Helpers.Http.get(SCHEMA_JSON, { accept: 'application/json' });
         const parsed = JSON.parse(raw);
         // load types
         for (const item of parsed['@graph']) {
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import { KnowledgeBase } from './knowledge-base';
+import {
+    similarity,
+    charSimilarity
+} from './misc';
+
+export const DEFAULT_ENTITY_SPAN_OVERRIDE = path.join(__dirname, '../../../data/qald7/entity-spans.json');
+
+// the weight of each kind of names of an entity, overrides are preferred over labels,
+// and labels over the others
+const OVERRIDE_WEIGHT = 1.1;
+const LABEL_WEIGHT = 1;
+const ALIAS_WEIGHT = 0.9;
+const DEMONYM_WEIGHT = 0.9;
+
+// minimum character-level similarity for a span to be considered a misspelling of a name
+const FUZZY_THRESHOLD = 0.8;
+
+export interface EntitySpan {
+    begin : number;
+    end : number;
+    display : string;
+    score : number;
+}
+
+interface EntityName {
+    name : string;
+    weight : number;
+}
+
+/**
+ * Align an entity to a span of the utterance
+ */
+export default class EntitySpanAligner {
+    private _kb : KnowledgeBase;
+    private _language : string;
+    private _overrides : Record<string, string>;
+
+    /**
+     * @param kb the knowledge base to retrieve the names of entities
+     * @param language the language code of the utterances
+     * @param overrideFiles JSON files mapping QIDs to the span in the utterance,
+     *                      for entities that can't be aligned automatically;
+     *                      later files take precedence; the default overrides are 
+     *                      for the English questions of QALD-7
+     */
+    constructor(kb : KnowledgeBase, language = 'en', overrideFiles ?: string[]) {
+        this._kb = kb;
+        this._language = language;
+        this._overrides = {};
+        for (const file of overrideFiles ?? (language === 'en' ? [DEFAULT_ENTITY_SPAN_OVERRIDE] : []))
+            Object.assign(this._overrides, JSON.parse(fs.readFileSync(file, 'utf-8')));
+    }
+
+    private async _getNames(qid : string) : Promise<EntityName[]> {
+        const names : EntityName[] = [];
+        if (qid in this._overrides)
+            names.push({ name: this._overrides[qid], weight: OVERRIDE_WEIGHT });
+        const label = await this._kb.getLabel(qid, this._language);
+        if (label)
+            names.push({ name: label, weight: LABEL_WEIGHT });
+        for (const alias of await this._kb.getAltLabels(qid, this._language))
+            names.push({ name: alias, weight: ALIAS_WEIGHT });
+        for (const demonym of await this._kb.getDemonyms(qid, this._language))
+            names.push({ name: demonym, weight: DEMONYM_WEIGHT });
+        return names;
+    }
+
+    /**
+     * Score a span against a name of an entity, by word-level similarity in the
+     * language of the utterance, or character-level similarity to allow misspellings 
+     * and inflections
+     */
+    private _score(name : string, span : string) : number {
+        const fuzzy = charSimilarity(name, span);
+        return Math.max(similarity(name, span, 'f1', this._language), fuzzy >= FUZZY_THRESHOLD ? fuzzy : 0);
+    }
+
+    /**
+     * Find the span of the utterance that best matches an entity
+     * @param qid the QID of the entity
+     * @param tokens the tokens of the utterance
+     * @returns the best matching span, with its token offsets (end excluded), or
+     *          null if no span matches any name of the entity
+     */
+    async align(qid : string, tokens : string[]) : Promise<EntitySpan|null> {
+        const names = await this._getNames(qid);
+        let best : EntitySpan|null = null;
+        // shorter spans come first, so they are preferred when scores are tied
+        for (let length = 1; length <= tokens.length; length ++) {
+            for (let begin = 0; begin <= tokens.length - length; begin ++) {
+                const end = begin + length;
+                // spans do not start or end with punctuation
+                if (/^[^\p{L}\p{N}]+$/u.test(tokens[begin]) || /^[^\p{L}\p{N}]+$/u.test(tokens[end - 1]))
+                    continue;
+                const span = tokens.slice(begin, end).join(' ');
+                for (const { name, weight } of names) {
+                    const score = weight * this._score(name, span);
+                    if (score > 0 && (!best || score > best.score))
+                        best = { begin, end, display: span, score };
+                }
+            }
+        }
+        return best;
+    }
+}
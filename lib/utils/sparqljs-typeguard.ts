@@ -14,8 +14,14 @@ import {
     BgpPattern,
     FilterPattern,
     UnionPattern,
+    OptionalPattern,
+    MinusPattern,
+    GroupPattern,
+    ValuesPattern,
+    BindPattern,
     AggregateExpression,
     OperationExpression,
+    FunctionCallExpression,
     SelectQuery,
     AskQuery
 } from 'sparqljs';
@@ -78,6 +84,14 @@ export function isUnaryPropertyPath(node : any, type ?: '+'|'*'|'!') : node is P
     return 'pathType' in node && ['+', '*', '!'].includes(node.pathType) && node.items.length === 1;
 }
 
+export function isInversePropertyPath(node : any) : node is PropertyPath {
+    return 'pathType' in node && node.pathType === '^' && node.items.length === 1;
+}
+
+export function isAlternativePropertyPath(node : any) : node is PropertyPath {
+    return 'pathType' in node && node.pathType === '|' && node.items.length > 1;
+}
+
 export function isBasicGraphPattern(node : any) : node is BgpPattern {
     return 'type' in node && node.type === 'bgp';
 }
@@ -90,6 +104,26 @@ export function isUnionPattern(node : any) : node is UnionPattern {
     return 'type' in node && node.type === 'union';
 }
 
+export function isOptionalPattern(node : any) : node is OptionalPattern {
+    return 'type' in node && node.type === 'optional';
+}
+
+export function isMinusPattern(node : any) : node is MinusPattern {
+    return 'type' in node && node.type === 'minus';
+}
+
+export function isGroupPattern(node : any) : node is GroupPattern {
+    return 'type' in node && node.type === 'group';
+}
+
+export function isValuesPattern(node : any) : node is ValuesPattern {
+    return 'type' in node && node.type === 'values';
+}
+
+export function isBindPattern(node : any) : node is BindPattern {
+    return 'type' in node && node.type === 'bind';
+}
+
 export function isAggregateExpression(node : any, aggregation ?: string) : node is AggregateExpression {
     if (aggregation)
         return 'type' in node && node.type === 'aggregate' && node.aggregation === aggregation;
@@ -100,6 +134,15 @@ export function isOperationExpression(node : any) : node is OperationExpression
     return 'type' in node && node.type === 'operation';
 }
 
+export function isFunctionCallExpression(node : any, func ?: string) : node is FunctionCallExpression {
+    if (!('type' in node && node.type === 'functionCall'))
+        return false;
+    if (!func)
+        return true;
+    // depending on the version of sparqljs, the function is either a string or a named node
+    return (typeof node.function === 'string' ? node.function : node.function.value) === func;
+}
+
 export function isSelectQuery(node : any) : node is SelectQuery {
     return 'queryType' in node && node.queryType === 'SELECT';
 }
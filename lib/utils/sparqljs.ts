@@ -84,6 +84,7 @@ export function postprocessPropertyPath(predicate : IriTerm|PropertyPath|Variabl
  * Handle a few special cases for union clause
  * case 1: { ?s ?p ?o } union { ?s ?p/P17 ?o } ==> { ?s ?p ?o }
  * case 2: { ?s P31 ?o } union { ?s P31/P279* ?o } ==> { ?s P31 ?o }
+ * case 3: { ?s P17 ?o } union { ?s P131/P17 ?o } ==> { ?s P17 ?o }
  * @param predicate A predicate
  * @returns a parsed triple for the special cases, and false if not matched 
  */
@@ -117,6 +118,11 @@ export function parseSpecialUnion(union : UnionPattern) : Triple|false {
         second.predicate.items[0].value === first.predicate.value &&
         isWikidataPropertyNode(second.predicate.items[1].items[0], 'P279'))
         return first;
+    // case 3: { ?s P17 ?o } union { ?s P131/P17 ?o } ==> { ?s P17 ?o }
+    if (isWikidataPropertyNode(first.predicate, 'P17') && 
+        isWikidataPropertyNode(second.predicate.items[0], 'P131') && // located in the administrative territorial entity
+        isWikidataPropertyNode(second.predicate.items[1], 'P17')) // country
+        return first;
     
     return false;
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+/**
+ * Natural language names of units (abbreviations, singular and plural forms),
+ * grouped by the unit in ThingTalk
+ * Ambiguous words such as "in" (inch) or "c" (celsius) are not included
+ */
+export const UNIT_NAMES : Record<string, string[]> = {
+    // time
+    'ms': ['ms', 'msec', 'millisecond', 'milliseconds'],
+    's': ['s', 'sec', 'secs', 'second', 'seconds'],
+    'min': ['min', 'mins', 'minute', 'minutes'],
+    'h': ['h', 'hr', 'hrs', 'hour', 'hours'],
+    'day': ['day', 'days'],
+    'week': ['wk', 'wks', 'week', 'weeks'],
+    'mon': ['month', 'months'],
+    'year': ['yr', 'yrs', 'year', 'years'],
+    // length
+    'm': ['m', 'meter', 'meters', 'metre', 'metres'],
+    'km': ['km', 'kms', 'kilometer', 'kilometers', 'kilometre', 'kilometres'],
+    'cm': ['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres'],
+    'mm': ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres'],
+    'mi': ['mi', 'mile', 'miles'],
+    'ft': ['ft', 'foot', 'feet'],
+    // area
+    'm2': ['m2', 'm²', 'sqm', 'square meter', 'square meters', 'square metre', 'square metres'],
+    'km2': ['km2', 'km²', 'sq km', 'square kilometer', 'square kilometers', 'square kilometre', 'square kilometres'],
+    'cm2': ['cm2', 'cm²', 'square centimeter', 'square centimeters', 'square centimetre', 'square centimetres'],
+    'mi2': ['mi2', 'mi²', 'sq mi', 'square mile', 'square miles'],
+    'ft2': ['ft2', 'ft²', 'sq ft', 'square foot', 'square feet'],
+    // volume
+    'm3': ['m3', 'm³', 'cubic meter', 'cubic meters', 'cubic metre', 'cubic metres'],
+    'km3': ['km3', 'km³', 'cubic kilometer', 'cubic kilometers', 'cubic kilometre', 'cubic kilometres'],
+    'l': ['l', 'liter', 'liters', 'litre', 'litres'],
+    'ml': ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+    'gal': ['gal', 'gallon', 'gallons'],
+    // speed
+    'mps': ['mps', 'm/s', 'meter per second', 'meters per second', 'metre per second', 'metres per second'],
+    'kmph': ['kmph', 'kph', 'km/h', 'kilometer per hour', 'kilometers per hour', 'kilometre per hour', 'kilometres per hour'],
+    'mph': ['mph', 'mile per hour', 'miles per hour'],
+    // mass
+    'kg': ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms', 'kilogramme', 'kilogrammes'],
+    'g': ['g', 'gram', 'grams', 'gramme', 'grammes'],
+    'mg': ['mg', 'milligram', 'milligrams'],
+    'lb': ['lb', 'lbs', 'pound', 'pounds'],
+    'oz': ['oz', 'ounce', 'ounces'],
+    // temperature
+    'C': ['°c', 'celsius', 'centigrade', 'degree celsius', 'degrees celsius', 'degree centigrade', 'degrees centigrade'],
+    'F': ['°f', 'fahrenheit', 'degree fahrenheit', 'degrees fahrenheit'],
+    'K': ['kelvin', 'kelvins', 'degree kelvin', 'degrees kelvin']
+};
+
+const UNIT_LEXICON : Record<string, string> = {};
+for (const [unit, names] of Object.entries(UNIT_NAMES)) {
+    for (const name of names)
+        UNIT_LEXICON[name] = unit;
+}
+
+const MAX_UNIT_LENGTH = Math.max(...Object.keys(UNIT_LEXICON).map((name) => name.split(' ').length));
+
+/**
+ * Find the unit at the beginning of a list of tokens, the longest match is returned
+ * @param tokens a list of tokens
+ * @returns the unit in ThingTalk, or null if no unit is found
+ */
+export function findUnit(tokens : string[]) : string|null {
+    for (let length = Math.min(MAX_UNIT_LENGTH, tokens.length); length > 0; length --) {
+        const span = tokens.slice(0, length).join(' ').toLowerCase();
+        if (span in UNIT_LEXICON)
+            return UNIT_LEXICON[span];
+    }
+    return null;
+}
@@ -0,0 +1,466 @@
+import * as fs from 'fs';
+import * as argparse from 'argparse';
+import * as sqlite3 from 'sqlite3';
+
+const CACHE_SCHEMA = `
+create table if not exists requests (
+    key text primary key,
+    method text,
+    url text,
+    result text,
+    timestamp integer
+);
+
+create table if not exists http_requests (
+    url text primary key,
+    result text,
+    timestamp integer
+);
+
+create table if not exists labels (
+    id varchar(16) primary key,
+    label text,
+    timestamp integer
+);
+
+create table if not exists metadata (
+    key text primary key,
+    value text
+);
+`;
+
+// the tables of the cache, with their key, value, and other columns (except the timestamp);
+// requests are keyed by method, arguments, and endpoint; http_requests are the requests keyed
+// by url cached by older versions, which are moved to requests (still keyed by their url, with
+// no method) when the cache is opened
+const TABLES : Record<string, { key : string, value : string, columns : string[] }> = {
+    requests: { key: 'key', value: 'result', columns: ['key', 'method', 'url', 'result'] },
+    http_requests: { key: 'url', value: 'result', columns: ['url', 'result'] },
+    labels: { key: 'id', value: 'label', columns: ['id', 'label'] }
+};
+
+/**
+ * The keys of the cache entries used by a run, by table
+ */
+export type CacheKeys = Record<string, string[]>;
+
+export interface CacheFilter {
+    // only the entries of these tables
+    tables ?: string[];
+    // only the entries whose key matches a SQL LIKE pattern, e.g., `getLabel@%`
+    pattern ?: string;
+    // only the entries with these keys
+    keys ?: CacheKeys;
+}
+
+interface TableStats {
+    entries : number;
+    size : number;
+    oldest : Date|null;
+    newest : Date|null;
+    // entries cached before timestamps were recorded
+    unknownAge : number;
+}
+
+export interface CacheStats {
+    metadata : Record<string, string>;
+    tables : Record<string, TableStats>;
+    // number of cached requests by method
+    methods : Record<string, number>;
+    // number of cached requests by endpoint (the URL without the query string)
+    endpoints : Record<string, number>;
+}
+
+function all(db : sqlite3.Database, sql : string, ...params : any[]) : Promise<any[]> {
+    return new Promise((resolve, reject) => {
+        db.all(sql, ...params, (err : Error|null, rows : any[]) => {
+            if (err)
+                reject(err);
+            else
+                resolve(rows);
+        });
+    });
+}
+
+/**
+ * Run a statement
+ * @returns the number of rows changed by the statement
+ */
+async function run(db : sqlite3.Database, sql : string, ...params : any[]) : Promise<number> {
+    await new Promise<void>((resolve, reject) => {
+        db.run(sql, ...params, (err : Error|null) => {
+            if (err)
+                reject(err);
+            else
+                resolve();
+        });
+    });
+    const [row] = await all(db, 'select changes() as count');
+    return row.count;
+}
+
+function exec(db : sqlite3.Database, sql : string) : Promise<void> {
+    return new Promise((resolve, reject) => {
+        db.exec(sql, (err : Error|null) => {
+            if (err)
+                reject(err);
+            else
+                resolve();
+        });
+    });
+}
+
+/**
+ * Move the requests cached by url by older versions to the requests table, where
+ * they are keyed by their url, and add the endpoint to the keys of the requests cached
+ * before the endpoint was part of the key
+ * @param db the sqlite database of the cache
+ */
+async function migrateLegacyRequests(db : sqlite3.Database) {
+    await run(db, `insert or ignore into requests (key, method, url, result, timestamp)
+        select url, null, url, result, timestamp from http_requests`);
+    await run(db, 'delete from http_requests');
+    await run(db, `update or ignore requests set key = key || '@' || substr(url, 1, instr(url || '?', '?') - 1)
+        where method is not null and key like '%)'`);
+}
+
+/**
+ * Open the sqlite cache of Wikidata requests, creating it if it does not exist,
+ * and migrating caches created by older versions: adding the timestamp of entries,
+ * and moving the requests cached by url
+ * @param cachePath the path to the cache
+ * @returns the sqlite database
+ */
+export async function openCache(cachePath : string) : Promise<sqlite3.Database> {
+    const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+        const db = new sqlite3.Database(cachePath, sqlite3.OPEN_CREATE|sqlite3.OPEN_READWRITE, (err : Error|null) => {
+            if (err)
+                reject(err);
+            else
+                resolve(db);
+        });
+    });
+    await exec(db, CACHE_SCHEMA);
+    for (const table of ['http_requests', 'labels']) {
+        const columns = await all(db, `pragma table_info(${table})`);
+        if (!columns.some((column) => column.name === 'timestamp'))
+            await run(db, `alter table ${table} add column timestamp integer`);
+    }
+    await migrateLegacyRequests(db);
+    return db;
+}
+
+/**
+ * Management of the sqlite cache of Wikidata requests: statistics, pruning, and
+ * sharing (a subset of) the cache across machines
+ */
+export default class WikidataCache {
+    private _db : sqlite3.Database;
+
+    private constructor(db : sqlite3.Database) {
+        this._db = db;
+    }
+
+    static async open(cachePath : string) : Promise<WikidataCache> {
+        return new WikidataCache(await openCache(cachePath));
+    }
+
+    close() : Promise<void> {
+        return new Promise((resolve, reject) => {
+            this._db.close((err : Error|null) => {
+                if (err)
+                    reject(err);
+                else
+                    resolve();
+            });
+        });
+    }
+
+    async stats() : Promise<CacheStats> {
+        const metadata : Record<string, string> = {};
+        for (const { key, value } of await all(this._db, 'select key, value from metadata'))
+            metadata[key] = value;
+
+        const tables : Record<string, TableStats> = {};
+        for (const [table, { key, value }] of Object.entries(TABLES)) {
+            const [row] = await all(this._db, `select count(*) as entries,
+                sum(length(${key}) + coalesce(length(${value}), 0)) as size,
+                min(timestamp) as oldest,
+                max(timestamp) as newest,
+                sum(timestamp is null) as unknownAge
+                from ${table}`);
+            tables[table] = {
+                entries: row.entries,
+                size: row.size ?? 0,
+                oldest: row.oldest ? new Date(row.oldest * 1000) : null,
+                newest: row.newest ? new Date(row.newest * 1000) : null,
+                unknownAge: row.unknownAge ?? 0
+            };
+        }
+
+        const methods : Record<string, number> = {};
+        for (const { method, count } of await all(this._db, 'select method, count(*) as count from requests group by method order by count desc'))
+            methods[method ?? '(cached by url)'] = count;
+
+        const endpoints : Record<string, number> = {};
+        const rows = await all(this._db, `select substr(url, 1, instr(url || '?', '?') - 1) as endpoint, count(*) as count
+            from requests group by endpoint order by count desc`);
+        for (const { endpoint, count } of rows)
+            endpoints[endpoint] = count;
+        return { metadata, tables, methods, endpoints };
+    }
+
+    /**
+     * Remove entries from the cache
+     * @param filter the entries to remove
+     * @param olderThan only remove the entries cached before this date; entries
+     *                  cached before timestamps were recorded are considered older
+     * @param dryRun count the entries to remove without removing them
+     * @returns the number of entries removed, by table
+     */
+    async prune(filter : CacheFilter, olderThan ?: Date, dryRun = false) : Promise<Record<string, number>> {
+        if (!filter.pattern && !filter.keys && !olderThan)
+            throw new Error('Pruning requires a pattern, keys, or an age, use a new cache to drop everything');
+        const removed : Record<string, number> = {};
+        for (const table of this._tables(filter)) {
+            const [condition, params] = await this._condition(table, filter, '');
+            const where = olderThan ? `${condition} and coalesce(timestamp, 0) < ?` : condition;
+            if (olderThan)
+                params.push(Math.floor(olderThan.getTime() / 1000));
+            if (dryRun) {
+                const [row] = await all(this._db, `select count(*) as count from ${table} where ${where}`, ...params);
+                removed[table] = row.count;
+            } else {
+                removed[table] = await run(this._db, `delete from ${table} where ${where}`, ...params);
+            }
+        }
+        if (!dryRun)
+            await exec(this._db, 'vacuum');
+        return removed;
+    }
+
+    /**
+     * Add the entries of another cache to this cache; when both have the same
+     * entry, the most recent one is kept
+     * @param sourcePath the path to the other cache, which is not modified
+     * @param filter the entries to add
+     * @returns the number of entries added or updated, by table
+     */
+    async merge(sourcePath : string, filter : CacheFilter = {}) : Promise<Record<string, number>> {
+        if (!fs.existsSync(sourcePath))
+            throw new Error(`${sourcePath} does not exist`);
+        await run(this._db, `attach database ? as source`, sourcePath);
+        try {
+            const merged : Record<string, number> = {};
+            for (const table of this._tables(filter)) {
+                const { key, columns } = TABLES[table];
+                // caches of older versions may miss the table, or the timestamp
+                const sourceColumns = (await all(this._db, `pragma source.table_info(${table})`)).map((column) => column.name);
+                if (sourceColumns.length === 0)
+                    continue;
+                const timestamp = sourceColumns.includes('timestamp') ? 'timestamp' : 'null';
+                const updates = columns.filter((column) => column !== key).map((column) => `${column} = excluded.${column}`);
+                const [condition, params] = await this._condition(table, filter, 'source.');
+                merged[table] = await run(this._db, `insert into main.${table} (${columns.join(', ')}, timestamp)
+                    select ${columns.join(', ')}, ${timestamp} from source.${table} where ${condition}
+                    on conflict (${key}) do update set ${updates.join(', ')}, timestamp = excluded.timestamp
+                    where coalesce(excluded.timestamp, 0) > coalesce(${table}.timestamp, 0)`, ...params);
+            }
+            // the source may be a cache of an older version
+            await migrateLegacyRequests(this._db);
+            return merged;
+        } finally {
+            await run(this._db, `detach database source`);
+        }
+    }
+
+    /**
+     * Copy entries of this cache to another cache
+     * @param outputPath the path to the other cache, created if it does not exist
+     * @param filter the entries to copy
+     * @param release the release the exported cache is tied to
+     * @returns the number of entries exported, by table
+     */
+    async export(outputPath : string, filter : CacheFilter = {}, release ?: string) : Promise<Record<string, number>> {
+        const [row] = await all(this._db, 'pragma database_list');
+        const output = await WikidataCache.open(outputPath);
+        try {
+            const exported = await output.merge(row.file, filter);
+            if (release)
+                await output.setMetadata('release', release);
+            return exported;
+        } finally {
+            await output.close();
+        }
+    }
+
+    async setMetadata(key : string, value : string) {
+        await run(this._db, 'insert or replace into metadata values (?, ?)', key, value);
+    }
+
+    private _tables(filter : CacheFilter) : string[] {
+        const tables = filter.tables ?? Object.keys(TABLES);
+        for (const table of tables) {
+            if (!(table in TABLES))
+                throw new Error(`Unknown cache table ${table}`);
+        }
+        return tables;
+    }
+
+    /**
+     * Build the SQL condition selecting the entries of a table matching a filter
+     * @param table the name of the table
+     * @param filter the filter
+     * @param prefix the prefix of the table, to select entries of an attached database
+     * @returns the condition and its parameters
+     */
+    private async _condition(table : string, filter : CacheFilter, prefix : string) : Promise<[string, any[]]> {
+        const key = `${prefix}${table}.${TABLES[table].key}`;
+        const conditions = ['true'];
+        const params = [];
+        if (filter.pattern) {
+            conditions.push(`${key} like ?`);
+            params.push(filter.pattern);
+        }
+        if (filter.keys) {
+            await exec(this._db, 'create temp table if not exists selected_keys (tbl text, key text)');
+            await run(this._db, 'delete from temp.selected_keys where tbl = ?', table);
+            for (const value of filter.keys[table] ?? [])
+                await run(this._db, 'insert into temp.selected_keys values (?, ?)', table, value);
+            conditions.push(`${key} in (select key from temp.selected_keys where tbl = ?)`);
+            params.push(table);
+        }
+        return [conditions.join(' and '), params];
+    }
+}
+
+function formatSize(bytes : number) : string {
+    return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+function readFilter(args : any) : CacheFilter {
+    return {
+        tables: args.table,
+        pattern: args.pattern,
+        keys: args.keys ? JSON.parse(fs.readFileSync(args.keys, 'utf-8')) : undefined
+    };
+}
+
+function addFilterArguments(parser : argparse.ArgumentParser) {
+    parser.add_argument('--table', {
+        required: false,
+        nargs: '+',
+        choices: Object.keys(TABLES),
+        help: 'Only the entries of these tables (defaults to all tables)'
+    });
+    parser.add_argument('--pattern', {
+        required: false,
+        help: 'Only the entries whose key (the method, arguments, and endpoint for requests, or the url for ' +
+            'requests cached by older versions; the id for labels) matches a SQL LIKE pattern, e.g., "getLabel@%"'
+    });
+    parser.add_argument('--keys', {
+        required: false,
+        help: 'Only the entries listed in a JSON file written by the converter or the manifest generator with --cache-keys'
+    });
+}
+
+async function main() {
+    const parser = new argparse.ArgumentParser({
+        add_help : true,
+        description : "Manage the sqlite cache of Wikidata requests"
+    });
+    const commands = parser.add_subparsers({ dest: 'command', required: true });
+
+    const stats = commands.add_parser('stats', { help: 'Show the size and the age of the entries of the cache' });
+    stats.add_argument('cache');
+
+    const prune = commands.add_parser('prune', { help: 'Remove entries from the cache by pattern or by age' });
+    prune.add_argument('cache');
+    addFilterArguments(prune);
+    prune.add_argument('--older-than', {
+        required: false,
+        type: Number,
+        help: 'Only the entries cached more than this number of days ago'
+    });
+    prune.add_argument('--dry-run', {
+        action: 'store_true',
+        help: 'Count the entries to remove without removing them',
+        default: false
+    });
+
+    const exportParser = commands.add_parser('export', { help: 'Copy (a subset of) the cache to another cache' });
+    exportParser.add_argument('cache');
+    exportParser.add_argument('-o', '--output', {
+        required: true,
+        help: 'Path to the cache to export to, created if it does not exist'
+    });
+    addFilterArguments(exportParser);
+    exportParser.add_argument('--release', {
+        required: false,
+        help: 'The release the exported cache is tied to'
+    });
+
+    const importParser = commands.add_parser('import', { help: 'Add (a subset of) another cache to the cache' });
+    importParser.add_argument('cache');
+    importParser.add_argument('input');
+    addFilterArguments(importParser);
+
+    const merge = commands.add_parser('merge', { help: 'Merge caches from several machines, keeping the most recent entries' });
+    merge.add_argument('inputs', { nargs: '+' });
+    merge.add_argument('-o', '--output', {
+        required: true,
+        help: 'Path to the merged cache, created if it does not exist'
+    });
+    merge.add_argument('--release', {
+        required: false,
+        help: 'The release the merged cache is tied to'
+    });
+    const args = parser.parse_args();
+
+    if (args.command !== 'merge' && !fs.existsSync(args.cache))
+        throw new Error(`${args.cache} does not exist`);
+    const cache = await WikidataCache.open(args.command === 'merge' ? args.output : args.cache);
+    try {
+        if (args.command === 'stats') {
+            const { metadata, tables, methods, endpoints } = await cache.stats();
+            for (const [key, value] of Object.entries(metadata))
+                console.log(`${key}: ${value}`);
+            for (const [table, { entries, size, oldest, newest, unknownAge }] of Object.entries(tables)) {
+                console.log(`${table}: ${entries} entries, ${formatSize(size)}`);
+                if (oldest && newest)
+                    console.log(`    cached between ${oldest.toISOString()} and ${newest.toISOString()}`);
+                if (unknownAge > 0)
+                    console.log(`    ${unknownAge} entries of unknown age`);
+                const breakdown = table === 'requests' ? { ...methods, ...endpoints } : {};
+                for (const [name, count] of Object.entries(breakdown))
+                    console.log(`    ${count}\t${name}`);
+            }
+        } else if (args.command === 'prune') {
+            const olderThan = args.older_than !== undefined ? new Date(Date.now() - args.older_than * 24 * 3600 * 1000) : undefined;
+            const removed = await cache.prune(readFilter(args), olderThan, args.dry_run);
+            for (const [table, count] of Object.entries(removed))
+                console.log(`${table}: ${count} entries ${args.dry_run ? 'to remove' : 'removed'}`);
+        } else if (args.command === 'export') {
+            const exported = await cache.export(args.output, readFilter(args), args.release);
+            for (const [table, count] of Object.entries(exported))
+                console.log(`${table}: ${count} entries exported`);
+        } else if (args.command === 'import') {
+            const imported = await cache.merge(args.input, readFilter(args));
+            for (const [table, count] of Object.entries(imported))
+                console.log(`${table}: ${count} entries imported`);
+        } else {
+            for (const input of args.inputs) {
+                const merged = await cache.merge(input);
+                for (const [table, count] of Object.entries(merged))
+                    console.log(`${input}: ${table}: ${count} entries merged`);
+            }
+            if (args.release)
+                await cache.setMetadata('release', args.release);
+        }
+    } finally {
+        await cache.close();
+    }
+}
+
+if (require.main === module)
+    main();
@@ -0,0 +1,414 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import * as argparse from 'argparse';
+import * as sqlite3 from 'sqlite3';
+import WikidataUtils, { WikidataUtilsOptions, PROPERTY_BLACKLIST, PROPERTY_QUALIFIER_PREFIX } from './wikidata';
+
+const DUMP_SCHEMA = `
+create table entities (
+    id varchar(16) primary key,
+    datatype varchar(32),
+    sitelinks integer
+);
+
+create table labels (
+    id varchar(16),
+    language varchar(16),
+    label text
+);
+
+create table aliases (
+    id varchar(16),
+    language varchar(16),
+    alias text
+);
+
+create table claims (
+    id varchar(16),
+    property varchar(16),
+    value text,
+    language varchar(16),
+    datatype varchar(32),
+    statement text,
+    truthy boolean
+);
+
+create table qualifiers (
+    statement text,
+    property varchar(16),
+    value text
+);
+
+create index labels_id on labels (id, language);
+create index aliases_id on aliases (id, language);
+create index claims_id on claims (id, property);
+create index claims_value on claims (property, value);
+create index qualifiers_statement on qualifiers (statement);
+`;
+
+// datatypes in the JSON dump, and their wikibase type in the SPARQL endpoint
+const DATATYPES : Record<string, string> = {
+    'wikibase-item': 'WikibaseItem',
+    'wikibase-property': 'WikibaseProperty',
+    'commonsMedia': 'CommonsMedia',
+    'string': 'String',
+    'quantity': 'Quantity',
+    'time': 'Time',
+    'monolingualtext': 'Monolingualtext',
+    'url': 'Url',
+    'globe-coordinate': 'GlobeCoordinate',
+    'external-id': 'ExternalId'
+};
+
+interface Snak {
+    snaktype : string;
+    property : string;
+    datatype ?: string;
+    datavalue ?: { type : string, value : any };
+}
+
+/**
+ * Convert the value of a snak in the JSON dump to the value returned by the
+ * SPARQL endpoint for truthy statements (with the entity prefix removed)
+ * @param snak a snak in the JSON dump
+ * @returns the value and the language of monolingual text, or null if the snak has
+ *          no value (e.g., unknown value)
+ */
+function snakValue(snak : Snak) : [string, string|null]|null {
+    if (snak.snaktype !== 'value' || !snak.datavalue)
+        return null;
+    const value = snak.datavalue.value;
+    switch (snak.datavalue.type) {
+    case 'wikibase-entityid':
+        return [value.id, null];
+    case 'string':
+        return [value, null];
+    case 'monolingualtext':
+        return [value.text, value.language];
+    case 'time':
+        return [value.time.replace(/^\+/, ''), null];
+    case 'quantity':
+        return [value.amount.replace(/^\+/, ''), null];
+    case 'globecoordinate':
+        return [`Point(${value.longitude} ${value.latitude})`, null];
+    default:
+        return null;
+    }
+}
+
+function settle(resolve : () => void, reject : (err : Error) => void) {
+    return (err : Error|null) => {
+        if (err)
+            reject(err);
+        else
+            resolve();
+    };
+}
+
+function run(db : sqlite3.Database|sqlite3.Statement, sql : string|null, ...params : any[]) : Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (db instanceof sqlite3.Statement)
+            db.run(...params, settle(resolve, reject));
+        else
+            db.run(sql!, ...params, settle(resolve, reject));
+    });
+}
+
+/**
+ * Load a (filtered) Wikidata JSON dump into a sqlite database
+ * @param dumpPath the path to the JSON dump, either a JSON array with one entity
+ *                 per line (as in the official dumps), or one entity per line
+ * @param dbPath the path to the sqlite database to create
+ * @param languages the languages of labels, aliases, and monolingual texts to keep,
+ *                  keep all languages if not specified
+ */
+export async function loadDump(dumpPath : string, dbPath : string, languages ?: string[]) {
+    const db = new sqlite3.Database(dbPath, sqlite3.OPEN_CREATE|sqlite3.OPEN_READWRITE);
+    await new Promise<void>((resolve, reject) => {
+        db.exec(DUMP_SCHEMA, settle(resolve, reject));
+    });
+    const insertEntity = db.prepare('insert or replace into entities values (?, ?, ?)');
+    const insertLabel = db.prepare('insert into labels values (?, ?, ?)');
+    const insertAlias = db.prepare('insert into aliases values (?, ?, ?)');
+    const insertClaim = db.prepare('insert into claims values (?, ?, ?, ?, ?, ?, ?)');
+    const insertQualifier = db.prepare('insert into qualifiers values (?, ?, ?)');
+    const keep = (language : string) => !languages || languages.includes(language);
+
+    await run(db, 'begin transaction');
+    const lines = readline.createInterface({ input: fs.createReadStream(dumpPath), crlfDelay: Infinity });
+    for await (let line of lines) {
+        line = line.trim().replace(/,$/, '');
+        if (line === '[' || line === ']' || line === '')
+            continue;
+        const entity = JSON.parse(line);
+        await run(insertEntity, null, entity.id, entity.datatype ?? null, Object.keys(entity.sitelinks ?? {}).length);
+        for (const label of Object.values(entity.labels ?? {}) as any[]) {
+            if (keep(label.language))
+                await run(insertLabel, null, entity.id, label.language, label.value);
+        }
+        for (const aliases of Object.values(entity.aliases ?? {}) as any[][]) {
+            for (const alias of aliases) {
+                if (keep(alias.language))
+                    await run(insertAlias, null, entity.id, alias.language, alias.value);
+            }
+        }
+        for (const [property, statements] of Object.entries(entity.claims ?? {}) as Array<[string, any[]]>) {
+            // truthy statements are the preferred ones if any, otherwise the normal ones
+            const hasPreferred = statements.some((statement) => statement.rank === 'preferred');
+            for (const statement of statements) {
+                if (statement.rank === 'deprecated')
+                    continue;
+                const value = snakValue(statement.mainsnak);
+                if (!value || (value[1] && !keep(value[1])))
+                    continue;
+                const truthy = hasPreferred ? statement.rank === 'preferred' : true;
+                await run(insertClaim, null, entity.id, property, value[0], value[1], statement.mainsnak.datatype ?? null, statement.id, truthy);
+                for (const [qualifier, snaks] of Object.entries(statement.qualifiers ?? {}) as Array<[string, Snak[]]>) {
+                    for (const snak of snaks) {
+                        const qualifierValue = snakValue(snak);
+                        if (qualifierValue)
+                            await run(insertQualifier, null, statement.id, qualifier, qualifierValue[0]);
+                    }
+                }
+            }
+        }
+    }
+    await run(db, 'commit');
+    for (const statement of [insertEntity, insertLabel, insertAlias, insertClaim, insertQualifier]) {
+        await new Promise<void>((resolve, reject) => {
+            statement.finalize(settle(resolve, reject));
+        });
+    }
+    await new Promise<void>((resolve, reject) => {
+        db.close(settle(resolve, reject));
+    });
+}
+
+/**
+ * A knowledge base backed by a Wikidata dump loaded into sqlite by `loadDump`,
+ * answering the same queries as WikidataUtils without network access
+ */
+export default class WikidataDumpUtils extends WikidataUtils {
+    private _db : sqlite3.Database;
+
+    /**
+     * @param dbPath the path to the sqlite database created by `loadDump`
+     * @param bootlegPath the path to the bootleg database
+     * @param options options for WikidataUtils, set `schemaorg` to a local copy of
+     *                the schema.org definitions to avoid network access entirely
+     */
+    constructor(dbPath : string, bootlegPath : string, options : WikidataUtilsOptions = {}) {
+        // the http cache is never used, as no request is sent
+        super(':memory:', bootlegPath, options);
+        this._db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY);
+    }
+
+    private _all(sql : string, ...params : any[]) : Promise<any[]> {
+        return new Promise((resolve, reject) => {
+            this._db.all(sql, ...params, (err : Error|null, rows : any[]) => {
+                if (err)
+                    reject(err);
+                else
+                    resolve(rows);
+            });
+        });
+    }
+
+    /**
+     * Get the truthy values of a property of an entity
+     */
+    private async _values(entityId : string, propertyId : string) : Promise<string[]> {
+        const rows = await this._all('select value from claims where id = ? and property = ? and truthy', entityId, propertyId);
+        return rows.map((r) => r.value);
+    }
+
+    async getPropertyValue(entityId : string, propertyId : string) : Promise<string[]> {
+        return this._values(entityId, propertyId);
+    }
+
+    async getCoordinates(entityId : string, propertyId : string) : Promise<string[]> {
+        // coordinates are stored as WKT literals, as returned by the endpoint
+        return this._values(entityId, propertyId);
+    }
+
+    async getLabel(id : string, language = 'en') : Promise<string|null> {
+        const rows = await this._all('select label from labels where id = ? and language = ?', id, language);
+        return rows.length > 0 ? rows[0].label : null;
+    }
+
+    async getAltLabels(id : string, language = 'en') : Promise<string[]> {
+        const rows = await this._all('select alias from aliases where id = ? and language = ?', id, language);
+        return rows.map((r) => r.alias);
+    }
+
+    async getDemonyms(id : string, language = 'en') : Promise<string[]> {
+        const rows = await this._all(`select value from claims where id = ? and property = 'P1549' and language = ? and truthy`, id, language);
+        return rows.map((r) => r.value);
+    }
+
+    async getLabelsByBatch(ids : string[], language = 'en') : Promise<Record<string, string|null>> {
+        const result : Record<string, string|null> = {};
+        for (const id of ids) {
+            if (/^[P|Q][0-9]+$/.test(id))
+                result[id] = await this.getLabel(id, language);
+        }
+        return result;
+    }
+
+    async getEntitiesByDomain(domain : string, limit = 100) : Promise<string[]> {
+        const rows = await this._all(`select claims.id from claims join entities on claims.id = entities.id
+            where property = 'P31' and value = ? and truthy order by sitelinks desc limit ?`, domain, limit);
+        return rows.map((r) => r.id);
+    }
+
+    /**
+     * Get the truthy claims of the example entities of a domain, skipping external ids
+     * and properties in the blacklist
+     */
+    private async _getDomainClaims(domain : string, includeNonEntityProperties : boolean) : Promise<Array<{ id : string, property : string, value : string }>> {
+        const exampleEntities = await this.getEntitiesByDomain(domain);
+        const claims = [];
+        for (const entity of exampleEntities) {
+            const rows = await this._all(`select distinct id, property, value from claims
+                where id = ? and truthy and datatype != 'external-id' ${includeNonEntityProperties ? '' : `and datatype = 'wikibase-item'`}`, entity);
+            claims.push(...rows.filter((r) => !PROPERTY_BLACKLIST.includes(r.property)));
+        }
+        return claims;
+    }
+
+    async getDomainProperties(domain : string, includeNonEntityProperties = false) : Promise<string[]> {
+        const entitiesByProperty : Record<string, Set<string>> = {};
+        for (const { id, property } of await this._getDomainClaims(domain, includeNonEntityProperties)) {
+            entitiesByProperty[property] = entitiesByProperty[property] ?? new Set();
+            entitiesByProperty[property].add(id);
+        }
+        // a property is included only if at least two entities have it
+        return Object.keys(entitiesByProperty).filter((p) => entitiesByProperty[p].size >= 2);
+    }
+
+    async getDomainPropertiesAndValues(domain : string, includeNonEntityProperties = false) : Promise<Record<string, any>> {
+        const properties : Record<string, string[]> = {};
+        for (const { property, value } of await this._getDomainClaims(domain, includeNonEntityProperties)) {
+            properties[property] = properties[property] ?? [];
+            properties[property].push(value);
+        }
+        // a property is included only if at least 10 entities have it
+        for (const [property, values] of Object.entries(properties)) {
+            if (values.length < 10)
+                delete properties[property];
+        }
+        return properties;
+    }
+
+    async getQualifiersByProperty(property : string) : Promise<string[]> {
+        const rows = await this._all(`select distinct claims.id, qualifiers.property from claims
+            join qualifiers on claims.statement = qualifiers.statement
+            join entities on qualifiers.property = entities.id
+            where claims.property = ? and entities.datatype != 'external-id' limit 100`, property);
+        const qualifierCount : Record<string, number> = {};
+        for (const r of rows) {
+            if (PROPERTY_BLACKLIST.includes(r.property))
+                continue;
+            qualifierCount[r.property] = (qualifierCount[r.property] ?? 0) + 1;
+        }
+        // a qualifier is included only if there are 10+ instances among the examples
+        return Object.keys(qualifierCount).filter((q) => qualifierCount[q] >= 10).map((q) => PROPERTY_QUALIFIER_PREFIX + q);
+    }
+
+    async getTimeProperties() {
+        const rows = await this._all(`select id from claims where property = 'P31' and value = 'Q18636219' and truthy`);
+        return rows.map((r) => r.id);
+    }
+
+    /**
+     * Get the qualifiers of the constraints (P2302) of a property
+     * @param propertyId PID
+     * @param constraint QID of the type of constraint
+     * @param qualifier PID of the qualifier
+     */
+    private async _getConstraint(propertyId : string, constraint : string, qualifier : string) : Promise<string[]> {
+        const rows = await this._all(`select qualifiers.value from claims
+            join qualifiers on claims.statement = qualifiers.statement
+            where claims.id = ? and claims.property = 'P2302' and claims.value = ? and qualifiers.property = ?`, propertyId, constraint, qualifier);
+        return rows.map((r) => r.value);
+    }
+
+    async getAllowedUnits(propertyId : string) : Promise<string[]> {
+        const units = await this._getConstraint(propertyId, 'Q21514353', 'P2305');
+        const labels = await this.getLabelsByBatch(units);
+        return units.map((unit) => labels[unit] ?? unit);
+    }
+
+    async getRangeConstraint(propertyId : string) : Promise<Record<string, number>|null> {
+        const range : Record<string, number> = {};
+        const [max] = await this._getConstraint(propertyId, 'Q21510860', 'P2312');
+        const [min] = await this._getConstraint(propertyId, 'Q21510860', 'P2313');
+        if (max)
+            range.max = Number(max);
+        if (min)
+            range.min = Number(min);
+        return Object.keys(range).length > 0 ? range : null;
+    }
+
+    protected async _getPropertyTypes() : Promise<Record<string, string>> {
+        const rows = await this._all(`select id, datatype from entities where datatype is not null and datatype != 'external-id'`);
+        const types : Record<string, string> = {};
+        for (const r of rows)
+            types[r.id] = DATATYPES[r.datatype] ?? r.datatype;
+        return types;
+    }
+
+    protected async _countDomainEntities(domain : string) : Promise<number> {
+        const rows = await this._all(`select count(distinct id) as count from claims where property = 'P31' and value = ? and truthy`, domain);
+        return rows[0].count;
+    }
+
+    protected async _getSchemaorgEquivalents() : Promise<Array<[string, string]>> {
+        const rows = await this._all(`select distinct id, value from claims where property = 'P1709' and value like 'https://schema.org/%' and truthy`);
+        return rows.map((r) => [r.id, r.value]);
+    }
+
+    protected async _getDomainsWithEquivalentClass() : Promise<string[]> {
+        const rows = await this._all(`select distinct id from claims where property = 'P1709' and truthy`);
+        return rows.map((r) => r.id);
+    }
+
+    protected async _getSuperclasses(qid : string, transitive : boolean) : Promise<string[]> {
+        if (!transitive)
+            return this._values(qid, 'P279');
+        const rows = await this._all(`with recursive ancestors(id) as (
+                select value from claims where id = ? and property = 'P279' and truthy
+                union
+                select claims.value from claims join ancestors on claims.id = ancestors.id
+                where claims.property = 'P279' and claims.truthy
+            ) select id from ancestors`, qid);
+        return rows.map((r) => r.id);
+    }
+}
+
+async function main() {
+    const parser = new argparse.ArgumentParser({
+        add_help : true,
+        description : "Load a filtered Wikidata JSON dump into a sqlite database for offline use"
+    });
+    parser.add_argument('-i', '--input', {
+        required: true,
+        help: 'Path to the Wikidata JSON dump'
+    });
+    parser.add_argument('-o', '--output', {
+        required: true,
+        help: 'Path to the sqlite database to create'
+    });
+    parser.add_argument('--languages', {
+        required: false,
+        nargs: '+',
+        help: 'Languages of labels, aliases, and monolingual texts to keep (defaults to all languages)'
+    });
+    const args = parser.parse_args();
+    if (fs.existsSync(args.output))
+        throw new Error(`${args.output} already exists`);
+    await loadDump(args.input, args.output, args.languages);
+}
+
+if (require.main === module)
+    main();
@@ -1,21 +1,24 @@
 import * as Tp from 'thingpedia';
 import * as sqlite3 from 'sqlite3';
-import * as fs from 'fs';
 import { wikibaseSdk } from 'wikibase-sdk'; 
 import wikibase from 'wikibase-sdk';
 import BootlegUtils from './bootleg';
+import { openCache, CacheKeys } from './wikidata-cache';
+import { KnowledgeBase } from './knowledge-base';
 import SchemaorgUtils, { SCHEMAORG_PREFIX, SchemaorgType, LEVEL1_DOMAINS } from './schemaorg';
 
-const URL = 'https://query.wikidata.org/sparql';
+const DEFAULT_ENDPOINT = 'https://query.wikidata.org/sparql';
+const DEFAULT_INSTANCE = 'https://www.wikidata.org';
 export const ENTITY_PREFIX = 'http://www.wikidata.org/entity/';
 export const PROPERTY_PREFIX = 'http://www.wikidata.org/prop/direct/';
 export const PROPERTY_PREDICATE_PREFIX = 'http://www.wikidata.org/prop/';
 export const PROPERTY_STATEMENT_PREFIX = 'http://www.wikidata.org/prop/statement/';
 export const PROPERTY_QUALIFIER_PREFIX = 'http://www.wikidata.org/prop/qualifier/';
 export const LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+export const GEOF_DISTANCE = 'http://www.opengis.net/def/function/geosparql/distance';
 export const TP_DEVICE_NAME = 'wd';
 
-const PROPERTY_BLACKLIST = [
+export const PROPERTY_BLACKLIST = [
     'P31',
     // obsolete properties
     'P642',
@@ -84,68 +87,166 @@ const SITELINKS_MINIMUM : Record<string, number> = {
     'Q13442814': 1, // scholar article
 };
 
-const SQLITE_SCHEMA = `
-create table http_requests (
-    url text primary key,
-    result text
-);
-
-create table labels (
-    id varchar(16) primary key,
-    label text
-);
-`;
+// the version of the request of each method, part of the cache key; bump the version
+// of a method when its request changes meaning (e.g., a new filter) to invalidate
+// its cached results, but not when the request is only reformatted; methods not
+// listed are at version 1
+const REQUEST_VERSIONS : Record<string, number> = {};
 
 interface Constraint {
     key : string,
     value : string
 }
 
-type WikibaseType = 'WikibaseItem' | 'CommonsMedia' | 'String' | 'Quantity' | 'Time' | 'Monolingualtext' | 'Url' | 'Unsupported';
+type WikibaseType = 'WikibaseItem' | 'CommonsMedia' | 'String' | 'Quantity' | 'Time' | 'Monolingualtext' | 'Url' | 'GlobeCoordinate' | 'Unsupported';
 
 function normalizeURL(url : string) {
     return url.trim().replace(/\s+/g, ' ');
 }
+
+export interface WikidataUtilsOptions {
+    // the SPARQL endpoint, e.g., a local mirror of Wikidata
+    endpoint ?: string;
+    // the wikibase instance for the entity API
+    instance ?: string;
+    // a local copy of the schema.org definitions
+    schemaorg ?: string;
+    // never send requests, only use the cache
+    offline ?: boolean;
+}
+
+/**
+ * The method of the knowledge base that sends a request, with its arguments
+ */
+interface RequestContext {
+    method : string;
+    args : unknown[];
+}
+
+/**
+ * The cache key of a request, e.g., `getPropertyValue@1("Q42","P31")@https://query.wikidata.org/sparql`;
+ * the endpoint is part of the key, as different endpoints (e.g., a local mirror) can have different data
+ * @param context the method sending the request, with its arguments
+ * @param url the url of the request
+ */
+function requestKey(context : RequestContext, url : string) : string {
+    const version = REQUEST_VERSIONS[context.method] ?? 1;
+    const endpoint = url.split('?')[0];
+    return `${context.method}@${version}(${JSON.stringify(context.args).slice(1, -1)})@${endpoint}`;
+}
+
+/**
+ * A request that would have been sent, but was not in the cache in offline mode
+ */
+export interface CacheMiss {
+    // the method of the knowledge base and its arguments
+    method : string;
+    args : unknown[];
+    // the request that would have been sent
+    url : string;
+}
+
+/**
+ * A request that is not in the cache in offline mode
+ */
+export class CacheMissError extends Error {
+    miss : CacheMiss;
+
+    constructor(miss : CacheMiss) {
+        super(`Cache miss in offline mode: ${miss.method}(${miss.args.join(', ')}) requires ${miss.url}`);
+        this.miss = miss;
+    }
+}
+
+/**
+ * A request that failed after retrying, e.g., a timeout of the SPARQL endpoint
+ */
+export class RequestError extends Error {
+    method : string;
+    args : unknown[];
+    url : string;
+
+    constructor(context : RequestContext, url : string, cause : unknown) {
+        super(`Failed to retrieve result for ${context.method}(${context.args.join(', ')}) from ${url}: ${cause instanceof Error ? cause.message : cause}`);
+        this.method = context.method;
+        this.args = context.args;
+        this.url = url;
+    }
+}
+
+/**
+ * Print the requests that would have been sent in offline mode, and fail the process
+ * @param kb the knowledge base
+ */
+export function reportCacheMisses(kb : WikidataUtils) {
+    if (kb.cacheMisses.length === 0)
+        return;
+    // the same request can be missed by multiple examples
+    const misses = new Map<string, CacheMiss>();
+    for (const miss of kb.cacheMisses)
+        misses.set(miss.url, miss);
+    console.error(`${misses.size} requests are missing from the cache:`);
+    for (const miss of misses.values())
+        console.error(`${miss.method}(${miss.args.map((arg) => JSON.stringify(arg)).join(', ')})\t${miss.url}`);
+    process.exitCode = 1;
+}
  
-export default class WikidataUtils {
+export default class WikidataUtils implements KnowledgeBase {
+    private _endpoint : string;
+    private _offline : boolean;
+    private _cacheMisses : CacheMiss[];
     private _wdk : wikibaseSdk;
     private _schemaorg : SchemaorgUtils;
     private _cachePath : string;
-    private _cache ! : sqlite3.Database;
+    private _cache : Promise<sqlite3.Database>|null;
+    private _cacheKeys : Record<string, Set<string>>; // keys of the cache entries used, by table
     private _bootleg : BootlegUtils;
-    private _cacheLoaded : boolean;
     private _domains : Record<string, SchemaorgType>; // domains and their schema.org equivalent type 
     private _subdomains : Record<string, string[]>; // domains and their subdomains
     private _domainSize : Record<string, number>; // number of entities for each domain
     private _properties : Record<string, WikibaseType>; // all properties to include with their wikibase type
 
-    constructor(cachePath : string, bootlegPath : string) {
+    constructor(cachePath : string, bootlegPath : string, options : WikidataUtilsOptions = {}) {
         this._cachePath = cachePath;
-        this._wdk = wikibase({ instance: 'https://www.wikidata.org' });
-        this._schemaorg = new SchemaorgUtils();
+        this._endpoint = options.endpoint ?? DEFAULT_ENDPOINT;
+        this._offline = options.offline ?? false;
+        this._cacheMisses = [];
+        this._wdk = wikibase({ instance: options.instance ?? DEFAULT_INSTANCE });
+        this._schemaorg = new SchemaorgUtils(options.schemaorg);
         this._bootleg = new BootlegUtils(bootlegPath);
-        this._cacheLoaded = false;
+        this._cache = null;
+        this._cacheKeys = {};
         this._domains = {};
         this._subdomains = {};
         this._domainSize = {};
         this._properties = {};
     }
 
-    get subdomains() {
+    get cacheMisses() : CacheMiss[] {
+        return this._cacheMisses;
+    }
+
+    /**
+     * The keys of the cache entries used so far, to export the subset of the cache needed
+     */
+    get cacheKeys() : CacheKeys {
+        const keys : CacheKeys = {};
+        for (const [table, values] of Object.entries(this._cacheKeys))
+            keys[table] = [...values];
+        return keys;
+    }
+
+    get subdomains() : Record<string, string[]> {
         return this._subdomains;
     }
 
     /**
      * Load or create sqlite database for caching
      */
-    private async _loadOrCreateSqliteCache() {
-        const db = new sqlite3.Database(this._cachePath, sqlite3.OPEN_CREATE|sqlite3.OPEN_READWRITE);
-        db.serialize(() => {
-            if (!fs.existsSync(this._cachePath)) 
-                db.exec(SQLITE_SCHEMA);
-        });
-        this._cache = db;
-        this._cacheLoaded = true;
+    private _loadOrCreateSqliteCache() : Promise<sqlite3.Database> {
+        if (!this._cache)
+            this._cache = openCache(this._cachePath);
+        return this._cache;
     }
 
     /**
@@ -156,11 +257,12 @@ export default class WikidataUtils {
      * @returns undefined if not found, otherwise in the format of { result : string }
      */
     private async _getCache(table : string, field : string, constraint : Constraint) : Promise<any> {
-        if (!this._cacheLoaded) 
-            await this._loadOrCreateSqliteCache();
+        const cache = await this._loadOrCreateSqliteCache();
+        this._cacheKeys[table] = this._cacheKeys[table] ?? new Set();
+        this._cacheKeys[table].add(constraint.value);
         return new Promise((resolve, reject) => {
             const sql = `select ${field} from ${table} where ${constraint.key} = ?`;
-            this._cache.get(sql, constraint.value, (err : Error|null, rows : any) => {
+            cache.get(sql, constraint.value, (err : Error|null, rows : any) => {
                 if (err)
                     reject(err);
                 else
@@ -176,12 +278,12 @@ export default class WikidataUtils {
      * @returns undefined
      */
     private async _setCache(table : string, ...values : string[]) {
-        if (!this._cacheLoaded) 
-            await this._loadOrCreateSqliteCache();
+        const cache = await this._loadOrCreateSqliteCache();
         return new Promise((resolve, reject) => {
             const placeholders = values.map(() => '?').join(',');
-            const sql = `insert into ${table} values (${placeholders})`; 
-            this._cache.get(sql, ...values, (err : Error|null, rows : any) => {
+            // the last column is the time the entry is cached, in seconds
+            const sql = `insert into ${table} values (${placeholders}, strftime('%s', 'now'))`; 
+            cache.get(sql, ...values, (err : Error|null, rows : any) => {
                 if (err)
                     reject(err);
                 else 
@@ -193,39 +295,50 @@ export default class WikidataUtils {
     /**
      * Obtain results of a SPARQL query against Wikidata SPARQL endpoint
      * @param sparql a SPARQL query
+     * @param context the method sending the query, to report cache misses in offline mode
      * @returns A list of the results
      */
-    private async _query(sparql : string) {
-        const result = await this._request(`${URL}?query=${encodeURIComponent(normalizeURL(sparql))}`);
-        if (result === null)
-            return null;
+    private async _query(sparql : string, context : RequestContext) {
+        const result = await this._request(`${this._endpoint}?query=${encodeURIComponent(normalizeURL(sparql))}`, context);
         return result.results.bindings;
     }
 
     /**
      * Obtain results of URL in JSON form (Wikibase API call)
      * @param url 
+     * @param context the method sending the request with its arguments, the result is cached
+     *                by them instead of by the url, so reformatting a request keeps its cache
      * @param caching enable caching for the request or not
      * @returns An object of the result
      */
-    private async _request(url : string, caching = true, attempts = 1) : Promise<any> {
-        if (caching) {
-            const cached = await this._getCache('http_requests', 'result', { key: 'url', value : url });
+    private async _request(url : string, context : RequestContext, caching = true, attempts = 1) : Promise<any> {
+        const key = requestKey(context, url);
+        if (caching || this._offline) {
+            const cached = await this._getCache('requests', 'result', { key: 'key', value: key });
             if (cached) 
                 return JSON.parse(cached.result);
+            // results cached by older versions are keyed by their url, store them by the new key
+            const legacy = await this._getCache('requests', 'result', { key: 'key', value: url });
+            if (legacy) {
+                await this._setCache('requests', key, context.method, url, legacy.result);
+                return JSON.parse(legacy.result);
+            }
+        }
+        if (this._offline) {
+            const miss = { ...context, url };
+            this._cacheMisses.push(miss);
+            throw new CacheMissError(miss);
         }
         try {
             const result = await Tp.Helpers.Http.get(url, { accept: 'application/json' });
             if (caching)
-                await this._setCache('http_requests', url, result);
+                await this._setCache('requests', key, context.method, url, result);
             const parsed = JSON.parse(result);
             return parsed;
         } catch(e) {
             if (attempts < 2)
-                return this._request(url, caching, attempts + 1);
-            console.log(`Failed to retrieve result for: ${url}`);
-            console.log(e);
-            return null;
+                return this._request(url, context, caching, attempts + 1);
+            throw new RequestError(context, url, e);
         }
     }
 
@@ -237,10 +350,22 @@ export default class WikidataUtils {
      */
     async getPropertyValue(entityId : string, propertyId : string) : Promise<string[]> {
         const sparql = `SELECT ?v WHERE { wd:${entityId} wdt:${propertyId} ?v. }`;
-        const res = await this._query(sparql);
+        const res = await this._query(sparql, { method: 'getPropertyValue', args: [entityId, propertyId] });
         return res.map((r : any) => r.v.value.slice(ENTITY_PREFIX.length));
     }
 
+    /**
+     * Obtain the coordinates of a given entity
+     * @param entityId QID of an entity
+     * @param propertyId PID of a globe coordinate property, e.g., P625
+     * @returns values of the property, as WKT literals, e.g., Point(2.35 48.85)
+     */
+    async getCoordinates(entityId : string, propertyId : string) : Promise<string[]> {
+        const sparql = `SELECT ?v WHERE { wd:${entityId} wdt:${propertyId} ?v. }`;
+        const res = await this._query(sparql, { method: 'getCoordinates', args: [entityId, propertyId] });
+        return res.map((r : any) => r.v.value);
+    }
+
     /**
      * Get the domain of a given entity: 
      * if there are multiple domains, pick the one that has the most instances;
@@ -270,18 +395,19 @@ export default class WikidataUtils {
     /**
      * Get the Wikidata label for an entity or a property   
      * @param id QID or PID
-     * @returns natural language label in English
+     * @param language the language code of the label (defaults to English)
+     * @returns natural language label in the given language
      */
-    async getLabel(id : string) : Promise<string|null> {
+    async getLabel(id : string, language = 'en') : Promise<string|null> {
         if (!/[P|Q][0-9]+/.test(id))
             return null;
         const result = await this._request(this._wdk.getEntities({ 
             ids: [id],
-            languages: ['en'],
+            languages: [language],
             props: ['labels']
-        }));
+        }), { method: 'getLabel', args: [id, language] });
         try {
-            return (Object.values(result.entities)[0] as any).labels.en.value;
+            return (Object.values(result.entities)[0] as any).labels[language].value;
         } catch(e) {
             console.log(`Failed to retrieve label for ${id}`);
             return null;
@@ -291,35 +417,51 @@ export default class WikidataUtils {
     /**
      * Get the Wikidata alt label for an entity or a property
      * @param id QID or PID
-     * @returns an array of alternative labels in English
+     * @param language the language code of the labels (defaults to English)
+     * @returns an array of alternative labels in the given language
      */
-    async getAltLabels(id : string) : Promise<string[]> {
+    async getAltLabels(id : string, language = 'en') : Promise<string[]> {
         const result = await this._request(this._wdk.getEntities({
             ids: [id],
-            languages: ['en'],
+            languages: [language],
             props: ['aliases']
-        }));
+        }), { method: 'getAltLabels', args: [id, language] });
         try {
-            return (Object.values(result.entities)[0] as any).aliases.en.map((alias : any) => alias.value);
+            return (Object.values(result.entities)[0] as any).aliases[language].map((alias : any) => alias.value);
         } catch(e) {
             console.log(`Found no alt label for ${id}`);
             return [];
         }
     }
 
+    /**
+     * Get the demonyms of an entity (e.g., "canadian" for Canada)
+     * @param id QID
+     * @param language the language code of the demonyms (defaults to English)
+     * @returns an array of demonyms in the given language
+     */
+    async getDemonyms(id : string, language = 'en') : Promise<string[]> {
+        const sparql = `SELECT ?v WHERE { wd:${id} wdt:P1549 ?v. FILTER(LANG(?v) = "${language}") }`;
+        const res = await this._query(sparql, { method: 'getDemonyms', args: [id, language] });
+        return res.map((r : any) => r.v.value);
+    }
+
     /**
      * Get the wikidata label for a list of entities/properties. 
      * The API allows up to 50 entities/properties at a time. 
-     * @param qids a list of QIDs or PIDs
+     * @param ids a list of QIDs or PIDs
+     * @param language the language code of the labels (defaults to English)
      * @returns A map from id to label
      */
-    async getLabelsByBatch(...ids : string[]) : Promise<Record<string, string|null>> {
+    async getLabelsByBatch(ids : string[], language = 'en') : Promise<Record<string, string|null>> {
         const result : Record<string, string|null> = {};
         const uncached = [];
         for (const id of ids) {
             if (!/^[P|Q][0-9]+$/.test(id))
                 continue;
-            const cached = await this._getCache('labels', 'label', { key : 'id', value : id });
+            // the labels table only has English labels, labels in other languages are 
+            // cached with their requests
+            const cached = language === 'en' ? await this._getCache('labels', 'label', { key : 'id', value : id }) : null;
             if (cached) 
                 result[id] = cached.label;
             else    
@@ -330,14 +472,15 @@ export default class WikidataUtils {
             const batch = uniqueUncached.slice(i, i + 50);
             const raw = await this._request(this._wdk.getEntities({
                 ids : batch,
-                languages: ['en'],
+                languages: [language],
                 props: ['labels']
-            }));
+            }), { method: 'getLabelsByBatch', args: [batch, language] });
             for (const [qid, entity] of Object.entries(raw.entities) as any) {
                 if (qid !== entity.id) // some entities are simply a redirect of another entity, drop those 
                     continue;
-                result[qid] = entity.labels?.en?.value;
-                await this._setCache('labels', qid, entity.labels?.en?.value ?? null);
+                result[qid] = entity.labels?.[language]?.value;
+                if (language === 'en')
+                    await this._setCache('labels', qid, entity.labels?.en?.value ?? null);
             }
         }
         return result;
@@ -368,7 +511,7 @@ export default class WikidataUtils {
                    wikibase:sitelinks ?sitelinks .  
             } ORDER BY DESC(?sitelinks) LIMIT ${limit}`;
         }
-        const res = await this._query(sparql);
+        const res = await this._query(sparql, { method: 'getEntitiesByDomain', args: [domain, limit] });
         return res.map((r : any) => r.v.value.slice(ENTITY_PREFIX.length));
     }
 
@@ -395,7 +538,7 @@ export default class WikidataUtils {
                 FILTER (?type != wikibase:ExternalId) .
                 ${includeNonEntityProperties ? '' : entityOnlyFilter }
             } `;
-            const res = await this._query(sparql);
+            const res = await this._query(sparql, { method: 'getDomainProperties', args: [entity, includeNonEntityProperties] });
             res.forEach((r : any) => {
                 if (!PROPERTY_BLACKLIST.includes(r.p.value.slice(PROPERTY_PREFIX.length))) {
                     const property = r.p.value.slice(PROPERTY_PREFIX.length);
@@ -427,7 +570,7 @@ export default class WikidataUtils {
                 FILTER (?type != wikibase:ExternalId) .
             }
         } LIMIT 100`;
-        const res = await this._query(sparql);
+        const res = await this._query(sparql, { method: 'getQualifiersByProperty', args: [property] });
         res.forEach((r : any) => {
             const q = r.qualifier?.value;
             if (q) {
@@ -466,7 +609,7 @@ export default class WikidataUtils {
                 FILTER (?type != wikibase:ExternalId) .
                 ${includeNonEntityProperties ? '' : entityOnlyFilter }
             } `;
-            const res = await this._query(sparql);
+            const res = await this._query(sparql, { method: 'getDomainPropertiesAndValues', args: [entity, includeNonEntityProperties] });
             res.forEach((r : any) => {
                 if (PROPERTY_BLACKLIST.includes(r.p.value.slice(PROPERTY_PREFIX.length)))
                     return;
@@ -498,7 +641,7 @@ export default class WikidataUtils {
         const sparql = `SELECT DISTINCT ?p WHERE {
             ?p wdt:P31 wd:Q18636219 ;
         }`;
-        const res = await this._query(sparql);
+        const res = await this._query(sparql, { method: 'getTimeProperties', args: [] });
         return res.map((r : any) => r.p.value.slice(ENTITY_PREFIX.length));
     }
 
@@ -516,7 +659,7 @@ export default class WikidataUtils {
             ?statement pq:P2305 ?value .
             SERVICE wikibase:label { bd:serviceParam wikibase:language "en". }
         }`;
-        const result = await this._query(query);
+        const result = await this._query(query, { method: 'getAllowedUnits', args: [propertyId] });
         return result.map((r : any) => r.valueLabel.value);
     }
 
@@ -533,7 +676,7 @@ export default class WikidataUtils {
             ?statement pq:P2312 ?max .
             ?statement pq:P2313 ?min .
         }`;
-        const result = await this._query(query);
+        const result = await this._query(query, { method: 'getRangeConstraint', args: [propertyId] });
         if (result.length > 0) {
             const range : Record<string, number> = {};
             if (result[0].max)
@@ -553,24 +696,35 @@ export default class WikidataUtils {
      */
     async getPropertyType(propertyId : string) : Promise<string> {
         if (Object.keys(this._properties).length === 0) {   
-            const query = `SELECT ?p ?type WHERE {
-                ?p wikibase:propertyType ?type . 
-                FILTER (?type != wikibase:ExternalId)
-            }`;
-            const result = await this._query(query);
-            result.forEach((r : any) => {
-                const property : string = r.p.value;
-                const type : string = r.type.value;
-                let wikibaseType = type.slice('http://wikiba.se/ontology#'.length);
-                // if (!['WikibaseItem', 'String', 'Quantity', 'Time', 'Monolingualtext', 'Url', 'GlobeCoordinate'].includes(wikibaseType))
-                if (!['WikibaseItem', 'String', 'Quantity', 'Time', 'Monolingualtext', 'Url'].includes(wikibaseType))
+            for (const [property, type] of Object.entries(await this._getPropertyTypes())) {
+                let wikibaseType = type;
+                if (!['WikibaseItem', 'String', 'Quantity', 'Time', 'Monolingualtext', 'Url', 'GlobeCoordinate'].includes(wikibaseType))
                     wikibaseType = 'Unsupported';
-                this._properties[property.slice(ENTITY_PREFIX.length)] = wikibaseType as WikibaseType;
-            });
+                this._properties[property] = wikibaseType as WikibaseType;
+            }
         }
         return this._properties[propertyId];
     }
 
+    /**
+     * Get the wikibase types of all properties, except external ids
+     * @returns a map from PID to wikibase type, e.g., WikibaseItem
+     */
+    protected async _getPropertyTypes() : Promise<Record<string, string>> {
+        const query = `SELECT ?p ?type WHERE {
+            ?p wikibase:propertyType ?type . 
+            FILTER (?type != wikibase:ExternalId)
+        }`;
+        const result = await this._query(query, { method: '_getPropertyTypes', args: [] });
+        const types : Record<string, string> = {};
+        result.forEach((r : any) => {
+            const property : string = r.p.value;
+            const type : string = r.type.value;
+            types[property.slice(ENTITY_PREFIX.length)] = type.slice('http://wikiba.se/ontology#'.length);
+        });
+        return types;
+    }
+
     /**
      * the number of entities in this domain
      * @param domain QID of a domain
@@ -580,36 +734,41 @@ export default class WikidataUtils {
             if (BIG_DOMAINS.includes(domain)) {
                 this._domainSize[domain] = Infinity;
             } else {
-                const query = `SELECT (COUNT(DISTINCT(?uri)) as ?count) WHERE {
-                    ?uri wdt:P31 wd:${domain}. 
-                }`;
-                const result = await this._query(query);
-                if (result === null) {
+                try {
+                    this._domainSize[domain] = await this._countDomainEntities(domain);
+                } catch(e) {
+                    if (!(e instanceof RequestError))
+                        throw e;
                     console.log(`Timeout to get domain size for ${domain}, assuming it's a big domain`);
                     this._domainSize[domain] = Infinity;
-                } else {
-                    this._domainSize[domain] = result[0].count.value;
                 }
             }
         }
         return this._domainSize[domain];
     }
 
+    /**
+     * Count the entities that are a direct instance of a domain
+     * @param domain QID of a domain
+     * @returns the number of entities
+     */
+    protected async _countDomainEntities(domain : string) : Promise<number> {
+        const query = `SELECT (COUNT(DISTINCT(?uri)) as ?count) WHERE {
+            ?uri wdt:P31 wd:${domain}. 
+        }`;
+        const result = await this._query(query, { method: '_countDomainEntities', args: [domain] });
+        return result[0].count.value;
+    }
+
     /**
      * Get all the domains to include in the schema
      * @returns the domains
      */
-    async loadAllDomains(minimum_size = 100) {
+    async loadAllDomains(minimum_size = 100) : Promise<void> {
         if (Object.keys(this._domains).length === 0) {
             const schemaTypes = await this._schemaorg.types();
-            const query = `SELECT DISTINCT ?domain ?equivalent WHERE {
-                ?domain wdt:P1709 ?equivalent.
-                FILTER(STRSTARTS(STR(?equivalent), 'https://schema.org/'))
-            }`;
-            const result = await this._query(query);
-            for (const r of result) {
-                const domain = r.domain.value.slice(ENTITY_PREFIX.length);
-                const equivalent = r.equivalent.value.slice(SCHEMAORG_PREFIX.length);
+            for (const [domain, iri] of await this._getSchemaorgEquivalents()) {
+                const equivalent = iri.slice(SCHEMAORG_PREFIX.length);
                 const equivalentType = schemaTypes.find((t) => t.name === equivalent);
                 if (!equivalentType)
                     continue;
@@ -633,14 +792,46 @@ export default class WikidataUtils {
         }
     }
 
+    /**
+     * Get the domains that have an equivalent class in schema.org 
+     * @returns pairs of the QID of the domain and the IRI of the equivalent schema.org type
+     */
+    protected async _getSchemaorgEquivalents() : Promise<Array<[string, string]>> {
+        const query = `SELECT DISTINCT ?domain ?equivalent WHERE {
+            ?domain wdt:P1709 ?equivalent.
+            FILTER(STRSTARTS(STR(?equivalent), 'https://schema.org/'))
+        }`;
+        const result = await this._query(query, { method: '_getSchemaorgEquivalents', args: [] });
+        return result.map((r : any) => [r.domain.value.slice(ENTITY_PREFIX.length), r.equivalent.value]);
+    }
+
+    /**
+     * Get the domains that have an equivalent class in any external ontology
+     * @returns a list of QIDs
+     */
+    protected async _getDomainsWithEquivalentClass() : Promise<string[]> {
+        const query = `SELECT DISTINCT ?uri WHERE { ?uri wdt:P1709 ?equivalent }`;
+        const result = await this._query(query, { method: '_getDomainsWithEquivalentClass', args: [] });
+        return result.map((r : any) => r.uri.value.slice(ENTITY_PREFIX.length));
+    }
+
+    /**
+     * Get the superclasses of a domain 
+     * @param qid QID of a domain
+     * @param transitive return all ancestors (P279+) instead of the immediate parents (P279)
+     * @returns a list of QIDs
+     */
+    protected async _getSuperclasses(qid : string, transitive : boolean) : Promise<string[]> {
+        const query = `SELECT ?uri WHERE { wd:${qid} wdt:P279${transitive ? '+' : ''} ?uri }`;
+        const result = await this._query(query, { method: '_getSuperclasses', args: [qid, transitive] });
+        return result.map((r : any) => r.uri.value.slice(ENTITY_PREFIX.length));
+    }
+
     async _loadSubdomains() {
         // get all domains that have external equivalence
-        const query = `SELECT DISTINCT ?uri WHERE { ?uri wdt:P1709 ?equivalent }`;
-        const result = await this._query(query);
+        const result = await this._getDomainsWithEquivalentClass();
         // find their parent 
-        const subdomains = result.map((r : any) => 
-            r.uri.value.slice(ENTITY_PREFIX.length)
-        ).filter((r : string) => 
+        const subdomains = result.filter((r : string) => 
             !(r in this._domains)
         );
         for (const domain of subdomains) {
@@ -662,11 +853,8 @@ export default class WikidataUtils {
                 domains.push(qid);
                 continue;
             }
-            const query = `SELECT ?uri WHERE { wd:${qid} wdt:P279+ ?uri }`;
-            const result = await this._query(query);
-            const parentDomains : string[] = result.map((r : any) => 
-                r.uri.value.slice(ENTITY_PREFIX.length)
-            ).filter((d : string) => 
+            const result = await this._getSuperclasses(qid, true);
+            const parentDomains : string[] = result.filter((d : string) => 
                 d in this._domains 
             );
             domains.push(...parentDomains);
@@ -687,11 +875,7 @@ export default class WikidataUtils {
                 domains.push(qid);
                 continue;
             }
-            const query = `SELECT ?uri WHERE { wd:${qid} wdt:P279 ?uri }`;
-            const result = await this._query(query);
-            const parentDomains : string[] = result.map((r : any) => 
-                r.uri.value.slice(ENTITY_PREFIX.length)
-            );
+            const parentDomains = await this._getSuperclasses(qid, false);
             domains.push(...parentDomains);
         }
         return [...new Set(domains)];
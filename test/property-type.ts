@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import assert from 'assert';
+import { Type } from 'thingtalk';
+import WikidataUtils from '../lib/utils/wikidata';
+import ManifestGenerator from '../lib/manifest-generator';
+
+// wikibase types of the properties, as returned by the endpoint
+const PROPERTY_TYPES : Record<string, string> = {
+    P625: 'GlobeCoordinate',
+    P571: 'Time',
+    P1448: 'Monolingualtext',
+    P856: 'Url',
+    P18: 'CommonsMedia'
+};
+
+const TEST_CASES : Array<[string, string, Type|null]> = [
+    ['P625', 'coordinate_location', Type.Location],
+    ['P571', 'inception', Type.Date],
+    ['P1448', 'official_name', Type.String],
+    ['P856', 'official_website', new Type.Entity('tt:url')],
+    ['P18', 'image', null]
+];
+
+class FixtureWikidataUtils extends WikidataUtils {
+    protected async _getPropertyTypes() : Promise<Record<string, string>> {
+        return PROPERTY_TYPES;
+    }
+
+    async getQualifiersByProperty(property : string) : Promise<string[]> {
+        return [];
+    }
+}
+
+async function main() {
+    const generator = new ManifestGenerator({
+        experiment: 'qald7',
+        type_system: 'hierarchical',
+        cache: ':memory:',
+        output: fs.createWriteStream('/dev/null'),
+        exclude_non_entity_properties: false,
+        use_wikidata_alt_labels: false,
+        bootleg_db: 'bootleg.sqlite',
+        kb: new FixtureWikidataUtils(':memory:', 'bootleg.sqlite')
+    });
+    for (const [propertyId, propertyName, expectedType] of TEST_CASES) {
+        const type = await generator['_getPropertyType'](propertyId, propertyName);
+        if (expectedType === null)
+            assert.strictEqual(type, null);
+        else
+            assert(type && type.equals(expectedType), `Expected ${expectedType}, got ${type}`);
+    }
+}
+
+main();
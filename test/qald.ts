@@ -0,0 +1,34 @@
+import assert from 'assert';
+import { preprocessMultilingualExample } from '../lib/utils/qald';
+
+// examples in the format of QALD-9-plus and QALD-10, with the questions in no particular order
+const EXAMPLES = [{
+    id: 1,
+    question: [
+        { language: 'de', string: 'Wer ist der Bürgermeister von Berlin?' },
+        { language: 'en', string: 'Who is the mayor of Berlin?' }
+    ],
+    query: { sparql: 'SELECT DISTINCT ?uri WHERE { <http://www.wikidata.org/entity/Q64> <http://www.wikidata.org/prop/direct/P6> ?uri . }' }
+}, {
+    // a DBpedia question with no Wikidata equivalent
+    id: 2,
+    question: [
+        { language: 'en', string: 'Give me all members of Prodigy.' }
+    ],
+    query: {}
+}];
+
+function main() {
+    assert.deepStrictEqual(preprocessMultilingualExample(EXAMPLES[0], 'en'), {
+        id: '1',
+        utterance: 'Who is the mayor of Berlin?',
+        sparql: EXAMPLES[0].query.sparql
+    });
+    assert.strictEqual(preprocessMultilingualExample(EXAMPLES[0], 'de')!.utterance, 'Wer ist der Bürgermeister von Berlin?');
+    // no question in the language
+    assert.strictEqual(preprocessMultilingualExample(EXAMPLES[0], 'fr'), null);
+    // no SPARQL over Wikidata
+    assert.strictEqual(preprocessMultilingualExample(EXAMPLES[1], 'en'), null);
+}
+
+main();
@@ -5,6 +5,7 @@ import * as ThingTalk from 'thingtalk';
 import { ThingTalkUtils, EntityUtils, I18n } from 'genie-toolkit';
 
 import { SPARQLToThingTalkConverter } from '../lib/converter';
+import { getErrorCategory } from '../lib/converter/errors';
 import { TP_DEVICE_NAME } from '../lib/utils/wikidata';
 
 const testFiles = [
@@ -35,8 +36,14 @@ async function main() {
             const sparql = tests[i].slice(tests[i].indexOf('SPARQL:') + 'SPARQL:'.length, tests[i].indexOf('TT:')).trim();
             const expected = tests[i].slice(tests[i].indexOf('TT:') + 'TT:'.length).trim();     
             const preprocessed = tokenizer.tokenize(utterance).tokens.join(' ');
+            // expected failures are written as "Error: <category>"
+            if (expected.startsWith('Error:')) {
+                const category = expected.slice('Error:'.length).trim();
+                await assert.rejects(converter.convert(sparql, preprocessed), (e) => getErrorCategory(e) === category);
+                continue;
+            }
             const converted = await converter.convert(sparql, preprocessed);
-            converted.typecheck(schemas);
+            await converted.typecheck(schemas);
             const thingtalk = ThingTalkUtils.serializePrediction(
                 converted, 
                 preprocessed,
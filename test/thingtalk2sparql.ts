@@ -0,0 +1,58 @@
+import assert from 'assert';
+import * as Tp from 'thingpedia';
+import * as ThingTalk from 'thingtalk';
+
+import { ThingTalkToSPARQLConverter } from '../lib/converter';
+import { TP_DEVICE_NAME } from '../lib/utils/wikidata';
+
+const TEST_CASES = [
+    [
+        `[ doctoral_advisor ] of @${TP_DEVICE_NAME} . human ( ) filter id == " Q937 " ^^${TP_DEVICE_NAME}:human ;`,
+        `SELECT DISTINCT ?v2 WHERE { VALUES ?v1 { wd:Q937 } ?v1 wdt:P31 wd:Q5 . ?v1 wdt:P184 ?v2 . }`
+    ],
+    [
+        `[ contains ( award_received , " Q844804 " ^^${TP_DEVICE_NAME}:p_award_received ) ] of @${TP_DEVICE_NAME} . human ( ) filter id == " Q276186 " ^^${TP_DEVICE_NAME}:human ;`,
+        `ASK WHERE { VALUES ?v1 { wd:Q276186 } ?v1 wdt:P31 wd:Q5 . ?v1 wdt:P166 wd:Q844804 . }`
+    ],
+    [
+        `count ( @${TP_DEVICE_NAME} . country ( ) filter contains ( continent , " Q46 " ^^${TP_DEVICE_NAME}:p_continent ) ) ;`,
+        `SELECT DISTINCT (COUNT(DISTINCT ?v1) AS ?count) WHERE { ?v1 wdt:P31 wd:Q6256 . ?v1 wdt:P30 wd:Q46 . }`
+    ],
+    [
+        `sort ( elevation_above_sea_level desc of @${TP_DEVICE_NAME} . mountain ( ) filter contains ( continent , " Q3960 " ^^${TP_DEVICE_NAME}:p_continent ) ) [ 1 ] ;`,
+        `SELECT DISTINCT ?v1 WHERE { ?v1 wdt:P31 wd:Q8502 . ?v1 wdt:P30 wd:Q3960 . ?v1 p:P2044/psn:P2044/wikibase:quantityAmount ?v2 . } ORDER BY DESC(?v2) LIMIT 1`
+    ],
+    [
+        `max ( population of @${TP_DEVICE_NAME} . country ( ) filter contains ( continent , " Q46 " ^^${TP_DEVICE_NAME}:p_continent ) ) ;`,
+        `SELECT DISTINCT (MAX(?v2) AS ?max) WHERE { ?v1 wdt:P31 wd:Q6256 . ?v1 wdt:P30 wd:Q46 . ?v1 wdt:P1082 ?v2 . }`
+    ],
+    [
+        `sort ( population asc of @${TP_DEVICE_NAME} . country ( ) filter contains ( continent , " Q46 " ^^${TP_DEVICE_NAME}:p_continent ) ) [ 1 : 3 ] ;`,
+        `SELECT DISTINCT ?v1 WHERE { ?v1 wdt:P31 wd:Q6256 . ?v1 wdt:P30 wd:Q46 . ?v1 wdt:P1082 ?v2 . } ORDER BY ASC(?v2) LIMIT 3`
+    ],
+    [
+        `@${TP_DEVICE_NAME} . lake ( ) filter area >= any ( [ area ] of @${TP_DEVICE_NAME} . lake ( ) filter id == " Q5525 " ^^${TP_DEVICE_NAME}:lake ) ;`,
+        `SELECT DISTINCT ?v1 WHERE { ?v1 wdt:P31 wd:Q23397 . VALUES ?v2 { wd:Q5525 } ?v2 wdt:P31 wd:Q23397 . ?v2 p:P2046/psn:P2046/wikibase:quantityAmount ?v3 . ?v1 p:P2046/psn:P2046/wikibase:quantityAmount ?v4 . FILTER(?v4 >= ?v3) . }`
+    ],
+    [
+        `[ capital ] of @${TP_DEVICE_NAME} . country ( ) filter id == " Q142 " ^^${TP_DEVICE_NAME}:country ;`,
+        `SELECT DISTINCT ?v2 WHERE { VALUES ?v1 { wd:Q142 } ?v1 wdt:P31 wd:Q6256 . ?v1 wdt:P36 ?v2 . }`
+    ]
+];
+
+async function main() {
+    const tpClient = new Tp.FileClient({ thingpedia: './manifest.tt', locale: 'en' });
+    const schemas = new ThingTalk.SchemaRetriever(tpClient, null, true);
+    const classDef = await schemas.getFullMeta(TP_DEVICE_NAME);
+    const converter = new ThingTalkToSPARQLConverter(classDef);
+    for (const [thingtalk, expected] of TEST_CASES) {
+        const program = await ThingTalk.Syntax.parse(thingtalk, ThingTalk.Syntax.SyntaxType.Tokenized, {}, {
+            locale: 'en',
+            timezone: undefined
+        }).typecheck(schemas);
+        const sparql = await converter.convert(program as ThingTalk.Ast.Program);
+        assert.strictEqual(sparql, expected);
+    }
+}
+
+main();
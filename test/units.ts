@@ -0,0 +1,24 @@
+import assert from 'assert';
+import * as Units from 'thingtalk-units';
+import { UNIT_NAMES, findUnit } from '../lib/utils/units';
+
+const TEST_CASES : Array<[string[], string|null]> = [
+    [['m', 'high'], 'm'],
+    [['Meters'], 'm'],
+    [['square', 'kilometers', 'of', 'land'], 'km2'],
+    [['km²'], 'km2'],
+    [['degrees', 'celsius'], 'C'],
+    [['miles', 'per', 'hour'], 'mph'],
+    [['in', 'the', 'city'], null],
+    [[], null]
+];
+
+function main() {
+    // every unit in the lexicon needs to be known by thingtalk-units
+    for (const unit of Object.keys(UNIT_NAMES)) 
+        assert.doesNotThrow(() => Units.normalizeUnit(unit), `Unknown unit ${unit}`);
+    for (const [tokens, expected] of TEST_CASES)
+        assert.strictEqual(findUnit(tokens), expected);
+}
+
+main();
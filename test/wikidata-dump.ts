@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import assert from 'assert';
+import WikidataDumpUtils, { loadDump } from '../lib/utils/wikidata-dump';
+import { PROPERTY_QUALIFIER_PREFIX } from '../lib/utils/wikidata';
+
+function snak(property : string, type : string, value : any) {
+    return { snaktype: 'value', property, datavalue: { type, value } };
+}
+
+// ten heads of state, each holding a position with a start time and an external id as qualifiers
+function makeFixture() : any[] {
+    const entities : any[] = [
+        { id: 'P39', datatype: 'wikibase-item', labels: { en: { language: 'en', value: 'position held' } } },
+        { id: 'P580', datatype: 'time', labels: { en: { language: 'en', value: 'start time' } } },
+        { id: 'P2002', datatype: 'external-id', labels: { en: { language: 'en', value: 'Twitter username' } } }
+    ];
+    for (let i = 0; i < 10; i++) {
+        const id = `Q${1000 + i}`;
+        entities.push({
+            id,
+            labels: { en: { language: 'en', value: `head of state ${i}` } },
+            claims: {
+                P39: [{
+                    id: `${id}$position`,
+                    rank: 'normal',
+                    mainsnak: { ...snak('P39', 'wikibase-entityid', { id: 'Q48352' }), datatype: 'wikibase-item' },
+                    qualifiers: {
+                        P580: [snak('P580', 'time', { time: `+${2000 + i}-01-01T00:00:00Z` })],
+                        P2002: [snak('P2002', 'string', `head${i}`)]
+                    }
+                }]
+            }
+        });
+    }
+    return entities;
+}
+
+async function main() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wikidata-dump-'));
+    const dumpPath = path.join(dir, 'dump.json');
+    const dbPath = path.join(dir, 'dump.sqlite');
+    fs.writeFileSync(dumpPath, makeFixture().map((entity) => JSON.stringify(entity)).join(',\n'));
+    await loadDump(dumpPath, dbPath);
+
+    const kb = new WikidataDumpUtils(dbPath, 'bootleg.sqlite');
+    // qualifiers are returned as full IRIs, same as the SPARQL backend, and external ids are excluded
+    assert.deepStrictEqual(await kb.getQualifiersByProperty('P39'), [PROPERTY_QUALIFIER_PREFIX + 'P580']);
+    assert.deepStrictEqual(await kb.getPropertyValue('Q1000', 'P39'), ['Q48352']);
+    fs.rmSync(dir, { recursive: true });
+}
+
+main();